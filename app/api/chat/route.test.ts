@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatStreamEvent, readChatStream } from '@/lib/chatStream';
+import { GET, POST } from './route';
+
+// 1x1 transparent PNG
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const SOURCES = [{ ref: 'a1b2', text: 'Launch in May', shapeIds: ['shape:launch'] }];
+
+const postChat = (body: unknown) =>
+  POST(new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }));
+
+const readEvents = async (response: Response) => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(response.body!)) events.push(event);
+  return events;
+};
+
+const answerOf = (events: ChatStreamEvent[]) =>
+  events.map(event => (event.type === 'delta' ? event.content : '')).join('');
+
+describe('/api/chat with the mock provider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('streams the answer, its citations and done', async () => {
+    const response = await postChat({
+      provider: 'mock',
+      messages: [{ role: 'user', content: 'When do we launch?' }],
+      sources: SOURCES,
+      canvasActions: false
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const events = await readEvents(response);
+    expect(answerOf(events)).toBe('Mock reply to: When do we launch? Messages: 2. Image: no. Source: [#a1b2].');
+    expect(events.slice(-2)).toEqual([
+      { type: 'citations', citations: [{ ref: 'a1b2', label: 'Launch in May', shapeIds: ['shape:launch'] }] },
+      { type: 'done' }
+    ]);
+  });
+
+  it('sends screenshots to providers that read images', async () => {
+    const events = await readEvents(await postChat({
+      provider: 'mock',
+      messages: [{ role: 'user', content: 'What does it show?' }],
+      sources: SOURCES,
+      images: [{ src: PIXEL, refs: ['a1b2'] }]
+    }));
+
+    expect(answerOf(events)).toContain('Image: yes.');
+    expect(events[events.length - 1]).toEqual({ type: 'done' });
+  });
+
+  it('proposes canvas actions as a tool_calls event', async () => {
+    const events = await readEvents(await postChat({
+      provider: 'mock',
+      messages: [{ role: 'user', content: 'Add a note about it' }],
+      sources: SOURCES
+    }));
+
+    expect(events.find(event => event.type === 'tool_calls')).toEqual({
+      type: 'tool_calls',
+      calls: [{
+        id: 'mock-call-0',
+        name: 'create_note',
+        action: { type: 'create_note', text: 'Add a note about it', nearShapeIds: ['shape:launch'], color: 'yellow' }
+      }]
+    });
+  });
+
+  it('rejects malformed requests with a bad_request error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await postChat({ provider: 'mock', messages: [{ role: 'system', content: 'Hi' }] });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'bad_request' } });
+  });
+
+  it('rejects unknown providers', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await postChat({ provider: 'nope', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'bad_request', message: 'Unknown LLM provider: nope' } });
+  });
+
+  it('lists the mock provider as configured', async () => {
+    const info = await (await GET()).json();
+    expect(info.providers).toContainEqual({ id: 'mock', label: 'Mock (offline)', model: 'mock', configured: true });
+  });
+});
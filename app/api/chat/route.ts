@@ -1,63 +1,93 @@
-import { Groq } from 'groq-sdk';
 import { NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-// Initialize GROQ with API key from environment variable
-const or = new OpenAI({
-  apiKey: process.env.OPENROUTER_API_KEY,
-  baseURL: 'https://openrouter.ai/api/v1'
-});
+import { CHAT_STREAM_HEADERS, createChatStream } from '@/lib/chatStream';
+import { buildChatPrompt, getAnswerEvents } from '@/lib/chatPrompt';
+import { CANVAS_TOOLS } from '@/lib/canvasTools';
+import { ChatApiError, ChatProviderInfo, readChatRequest, toChatApiError } from '@/lib/chatApi';
+import { getProvider, isProviderId, PROVIDER_IDS, ToolCallRequest } from '@/lib/providers';
 
-export async function POST(request: Request) {
+// The provider and model answers come from when the client does not pick one, so
+// the client can size its context for the model
+export async function GET() {
   try {
-    const { messages, searchContext, base64Image } = await request.json();
+    const provider = getProvider();
+    return NextResponse.json({
+      provider: provider.id,
+      model: provider.defaultModel,
+      supportsImages: provider.supportsImages,
+      supportsTools: provider.supportsTools,
+      configured: provider.isConfigured(),
+      providers: PROVIDER_IDS.map((id) => {
+        const option = getProvider(id);
+        return { id, label: option.label, model: option.defaultModel, configured: option.isConfigured() };
+      })
+    } satisfies ChatProviderInfo);
+  } catch (error) {
+    const apiError = toChatApiError(error);
+    return NextResponse.json(apiError.toBody(), { status: apiError.status });
+  }
+}
 
-    const formattedMessages = [];
+export async function POST(request: Request) {
+  try {
+    // Retrieved whiteboard content, each piece tagged with a short ref to cite, and
+    // screenshots of the board regions holding it
+    const {
+      messages,
+      sources,
+      images,
+      provider: providerId,
+      model,
+      maxTokens,
+      canvasActions
+    } = await readChatRequest(request);
 
-    // Add system message and search context
-    formattedMessages.push({
-      role: "user",
-      content: `You are an AI assistant helping to analyze and discuss content from a whiteboard. The user's query is related to the following content found on the whiteboard, make sense of it and assume that this part is just text extracted from the whiteboard - ignore gibberish and do not mention how many times something occurs or describe the context:\n\n${searchContext}. Do not respond with any formatting or markdown.`
-    });
+    // Select the LLM provider from the request, falling back to LLM_PROVIDER
+    if (providerId !== undefined && !isProviderId(providerId)) {
+      throw new ChatApiError('bad_request', `Unknown LLM provider: ${providerId}`);
+    }
+    const provider = getProvider(providerId);
+    if (!provider.isConfigured()) {
+      throw new ChatApiError('missing_api_key', `${provider.label} is not configured on the server`);
+    }
 
-    // Add conversation history
-    formattedMessages.push(...messages.map((msg: any) => ({
-      role: msg.role,
-      content: msg.content
-    })));
-    // Add image if available
-    if (base64Image) {
-      formattedMessages.push({
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: "Here is the relevant section of the whiteboard:" + searchContext
-          },
-          {
-            type: "image_url",
-            image_url: {
-              url: base64Image
-            }
-          }
-        ]
-      });
+    // Canvas tools are offered unless the client asks for a plain answer
+    const useTools = provider.supportsTools && canvasActions;
+    const formattedMessages = buildChatPrompt(
+      { messages, sources, images },
+      { supportsImages: provider.supportsImages, useTools }
+    );
+    if (images.length > 0 && !provider.supportsImages) {
+      console.log(`Skipping ${images.length} screenshot(s), ${provider.label} does not support images`);
     }
 
-    const completion = await or.chat.completions.create({
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+
+    // Canvas edits the model asks for; the client previews them before applying
+    let toolCalls: ToolCallRequest[] = [];
+    const deltas = provider.streamChat({
       messages: formattedMessages,
-      model: "openai/gpt-4o-mini",
-      max_tokens: 2048,
+      model: model || provider.defaultModel,
+      maxTokens,
+      signal: abortController.signal,
+      tools: useTools ? CANVAS_TOOLS : undefined,
+      onToolCalls: (calls) => {
+        toolCalls = calls;
+      }
     });
 
-    return NextResponse.json({
-      content: completion.choices[0]?.message?.content || 'No response generated'
-    });
+    return new Response(
+      createChatStream(
+        deltas,
+        () => abortController.abort(),
+        (answer) => getAnswerEvents(answer, sources, toolCalls)
+      ),
+      { headers: CHAT_STREAM_HEADERS }
+    );
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Chat API error:', error);
-    return NextResponse.json(
-      { error: error.message || 'Failed to generate response' },
-      { status: 500 }
-    );
+    const apiError = toChatApiError(error);
+    return NextResponse.json(apiError.toBody(), { status: apiError.status });
   }
-}
\ No newline at end of file
+}
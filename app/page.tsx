@@ -1,63 +1,222 @@
 'use client'
 
-import React, { useEffect, useState, useRef } from 'react';
-import { getEmbedding, EmbeddingIndex } from 'client-vector-search';
-import { Tldraw, useEditor, Editor, Vec, createTLStore, TLStore, Box, exportAs, copyAs, exportToBlob } from '@tldraw/tldraw'
+import React, { useCallback, useEffect, useState, useRef, useMemo } from 'react';
+import { EmbeddingIndex } from 'client-vector-search';
+import { Tldraw, useEditor, useValue, Editor, Vec, createTLStore, TLStore, Box, exportAs, copyAs, TLPageId, TLShape, TLComponents, TLCamera, TLShapeId, DefaultContextMenu, DefaultContextMenuContent, TldrawUiMenuGroup, TldrawUiMenuItem, TLUiContextMenuProps } from '@tldraw/tldraw'
 import '@tldraw/tldraw/tldraw.css'
+import {
+  BoardMeta,
+  createBoard,
+  deleteBoardStorage,
+  duplicateBoard,
+  getBoardIdFromUrl,
+  getBoardIndexNamespace,
+  getBoardSnapshotKey,
+  loadBoards,
+  removeBoard,
+  renameBoard,
+  setBoardIdInUrl
+} from '@/lib/boards';
+import {
+  BOARD_BUNDLE_EXTENSION,
+  exportBoardBundle,
+  getBundleFileName,
+  importBoardBundle,
+  readBoardBundleFile
+} from '@/lib/boardBundle';
+import { addLinkedNote, addNoteAt, applyCanvasToolCalls, validateCanvasToolCalls } from '@/lib/canvasActions';
+import { CanvasToolCall, describeCanvasAction, getActionShapeIds } from '@/lib/canvasTools';
+import {
+  BrowserChatSettings,
+  ChatMode,
+  detectChatMode,
+  loadBrowserChatSettings,
+  saveBrowserChatSettings,
+  streamBrowserChat
+} from '@/lib/browserChat';
+import { CHAT_ERROR_HELP, ChatApiError, ChatApiRequest, ChatProviderInfo, readChatApiError } from '@/lib/chatApi';
+import { getSpeechRecognizer, Recording, startRecording } from '@/lib/speech';
+import {
+  AppSettings,
+  loadBoardSettings,
+  loadGlobalSettings,
+  resolveSettings,
+  saveBoardSettings,
+  saveGlobalSettings,
+  SETTING_RANGES,
+  SettingsScope
+} from '@/lib/settings';
+import { buildChatContext, ChatContextSummary, ContextCandidate, ContextImage } from '@/lib/chatContext';
+import { readChatStream } from '@/lib/chatStream';
+import { Citation, ContextSource, getSourceRefs, stripCitations } from '@/lib/citations';
+import {
+  ChatMessage,
+  ChatThread,
+  createThreadId,
+  deleteThread,
+  getDefaultThreadTitle,
+  loadThreads,
+  saveThread,
+  toStoredMessages
+} from '@/lib/chatThreads';
+import { clusterShapes, getClusterHull, getClusterInputs, ShapeCluster } from '@/lib/clustering';
+import { SearchHit, SearchMode, hybridSearch } from '@/lib/hybridSearch';
+import { captureVisualContext } from '@/lib/visualContext';
+import {
+  EmbeddingStatus,
+  getEmbeddingClient,
+  isAbortError,
+  loadPreferredEmbeddingModel,
+  savePreferredEmbeddingModel
+} from '@/lib/embeddings';
+import { startImageTextRecognition } from '@/lib/imageText';
+import { createKeywordIndex, parseSearchQuery } from '@/lib/keywordIndex';
+import {
+  SELECTION_ACTIONS,
+  SelectionActionId,
+  getSelectionShapeIds,
+  getSelectionSources
+} from '@/lib/selectionActions';
+import { buildSnippet } from '@/lib/snippet';
+import { ShapeTextData, getShapeText, getShapeTypeLabel, subscribeShapeTextChanges } from '@/lib/shapeText';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  EMBEDDING_MODELS,
+  EmbeddingModelOption,
+  ObjectItem,
+  boundsEqual,
+  clusterIdFromHash,
+  createCoalescingRunner,
+  getEmbeddingModel,
+  getEntryBounds,
+  getEntryShapes,
+  hashClusterContent,
+  hashString,
+  normalizeIndexEntry
+} from '@/lib/vectorIndex';
+import {
+  IndexMeta,
+  clearIndexStore,
+  getCachedEmbedding,
+  loadIndexEntries,
+  loadIndexMeta,
+  putCachedEmbedding,
+  saveIndexChanges,
+  saveIndexMeta
+} from '@/lib/vectorStore';
+
+type ChatScope = 'all-pages' | 'current-page';
+
+// Where dictated text goes: the chat input, or a note at a point on a page
+type DictationTarget =
+  | { type: 'chat' }
+  | { type: 'note'; pageId: TLPageId; point: { x: number; y: number } };
 
-interface ObjectItem {
-  id: string;
-  name: string;
-  embedding: number[];
-  shapeId: string;
+interface WhiteboardWithSearchProps {
+  onShapesChange: (shapes: Map<string, ShapeTextData>) => void;
 }
 
-interface WhiteboardWithSearchProps {
-  onShapesChange: (shapes: Map<string, { text: string; center: Vec }>) => void;
+// Hits below this cosine similarity are hidden unless they also matched by keyword
+const DEFAULT_MIN_SIMILARITY = 0.3;
+
+// Bursts of canvas changes (e.g. dragging a note) are coalesced into one index update
+const INDEX_DEBOUNCE_MS = 500;
+
+const embeddingClient = getEmbeddingClient();
+
+// Differences between the stored index and the board found after loading
+interface ReconcileReport {
+  // Entries whose shapes were deleted
+  orphaned: number;
+  // Entries replaced because their shapes' text or grouping changed
+  stale: number;
+  // Clusters embedded because they were missing or stale
+  indexed: number;
+  moved: number;
+  // Clusters that could not be embedded yet
+  skipped: number;
 }
 
-const calculateDistance = (p1: Vec, p2: Vec): number => {
-  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+const hasReconcileFixes = (report: ReconcileReport) =>
+  report.orphaned + report.stale + report.indexed + report.moved + report.skipped > 0;
+
+const formatReconcileReport = ({ orphaned, stale, indexed, moved, skipped }: ReconcileReport) => {
+  const fixes = [
+    orphaned > 0 && `removed ${orphaned} ${orphaned === 1 ? 'entry' : 'entries'} for deleted shapes`,
+    stale > 0 && `dropped ${stale} outdated ${stale === 1 ? 'entry' : 'entries'}`,
+    indexed > 0 && `indexed ${indexed} new or changed ${indexed === 1 ? 'group' : 'groups'}`,
+    moved > 0 && `updated the position of ${moved}`,
+    skipped > 0 && `could not index ${skipped} yet`
+  ].filter(Boolean);
+  return `Search index checked against the board: ${fixes.join(', ')}.`;
+};
+
+const toIndexMeta = (model: EmbeddingModelOption, rebuilding: boolean): IndexMeta => ({
+  model: { id: model.id, dimensions: model.dimensions },
+  rebuilding
+});
+
+const formatEmbeddingStatus = (status: EmbeddingStatus) => {
+  switch (status.state) {
+    case 'loading-model':
+      return status.progress === null ? 'Loading model…' : `Loading model ${Math.round(status.progress)}%`;
+    case 'embedding':
+      return `Indexing ${status.done}/${status.total}`;
+    case 'ready':
+      return 'Index ready';
+    case 'error':
+      return 'Indexing failed';
+    default:
+      return '';
+  }
 };
 
-const CLUSTER_THRESHOLD = 200;
+// Every shape with text, on every page, so switching pages does not look like a deletion
+const collectTextShapes = (editor: Editor) => {
+  const textShapes = new Map<string, ShapeTextData>();
+  editor.getPages().forEach((page) => {
+    editor.getPageShapeIds(page.id).forEach((shapeId) => {
+      const shape = editor.getShape(shapeId);
+      if (!shape) return;
+      // Any shape type with a registered text extractor is searchable
+      const text = getShapeText(editor, shape);
+      if (!text) return;
+
+      const bounds = editor.getShapePageBounds(shape);
+      if (bounds) {
+        textShapes.set(shape.id, {
+          text,
+          center: bounds.center,
+          type: shape.type,
+          pageId: page.id
+        });
+      }
+    });
+  });
+  return textShapes;
+};
 
 const WhiteboardWithSearch: React.FC<WhiteboardWithSearchProps> = ({ onShapesChange }) => {
   const editor = useEditor();
-  const previousShapesRef = useRef<Map<string, { text: string; center: Vec }>>(new Map());
+  const previousShapesRef = useRef<Map<string, ShapeTextData>>(new Map());
 
   useEffect(() => {
     if (!editor) return () => {};
 
     const handleChange = () => {
-      const newTextShapes = new Map<string, { text: string; center: Vec }>();
-      const shapes = editor.getCurrentPageShapes();
-      
-      const changedShapes = shapes.filter(shape => 
-        'text' in shape.props && 
-        editor.isShapeOfType(shape, 'text') &&
-        shape.props.text?.trim()
-      );
-      
-      let hasChanges = false;
+      const newTextShapes = collectTextShapes(editor);
 
-      changedShapes.forEach((shape) => {
-        const bounds = editor.getShapePageBounds(shape);
-        if (bounds) {
-          const newData = {
-            text: shape.props.text || '',
-            center: bounds.center
-          };
-          newTextShapes.set(shape.id, newData);
-
-          // Check if this shape has changed
-          const previousData = previousShapesRef.current.get(shape.id);
-          if (!previousData || 
-              previousData.text !== newData.text ||
-              previousData.center.x !== newData.center.x ||
-              previousData.center.y !== newData.center.y) {
-            hasChanges = true;
-          }
+      // Check if any shape has changed
+      let hasChanges = false;
+      newTextShapes.forEach((newData, shapeId) => {
+        const previousData = previousShapesRef.current.get(shapeId);
+        if (!previousData || 
+            previousData.text !== newData.text ||
+            previousData.type !== newData.type ||
+            previousData.pageId !== newData.pageId ||
+            previousData.center.x !== newData.center.x ||
+            previousData.center.y !== newData.center.y) {
+          hasChanges = true;
         }
       });
 
@@ -72,36 +231,410 @@ const WhiteboardWithSearch: React.FC<WhiteboardWithSearchProps> = ({ onShapesCha
       }
     };
 
-    const cleanup = editor.addListener('change', handleChange);
+    editor.addListener('change', handleChange);
+    // Text recognized in images and drawings arrives without a store change
+    const unsubscribe = subscribeShapeTextChanges(handleChange);
     
     return () => {
       editor.removeListener('change', handleChange);
+      unsubscribe();
     };
   }, [editor, onShapesChange]);
 
   return null;
 };
 
-const getEmbeddingWithRetry = async (text: string, retries = 3): Promise<number[]> => {
-  try {
-    return await getEmbedding(text);
-  } catch (error) {
-    if (retries > 0) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return getEmbeddingWithRetry(text, retries - 1);
-    }
-    throw error;
-  }
+// Canvas context menu with the assistant's selection actions and dictation above
+// the defaults
+const createSelectionContextMenu = (
+  onAction: (actionId: SelectionActionId) => void,
+  onDictateNote: () => void
+) => {
+  const SelectionContextMenu: React.FC<TLUiContextMenuProps> = (props) => {
+    const editor = useEditor();
+    const hasSelection = useValue('has selection', () => editor.getSelectedShapeIds().length > 0, [editor]);
+
+    return (
+      <DefaultContextMenu {...props}>
+        {hasSelection && (
+          <TldrawUiMenuGroup id="assistant">
+            {SELECTION_ACTIONS.map(action => (
+              <TldrawUiMenuItem
+                key={action.id}
+                id={`assistant-${action.id}`}
+                label={action.label}
+                onSelect={() => onAction(action.id)}
+              />
+            ))}
+          </TldrawUiMenuGroup>
+        )}
+        <TldrawUiMenuGroup id="dictation">
+          <TldrawUiMenuItem id="dictate-note" label="Dictate note here" onSelect={onDictateNote} />
+        </TldrawUiMenuGroup>
+        <DefaultContextMenuContent />
+      </DefaultContextMenu>
+    );
+  };
+  return SelectionContextMenu;
+};
+
+// Shows the hull of every cluster on the current page, for tuning the clustering
+const createClusterOverlay = (threshold: number): React.FC => function ClusterOverlay() {
+  const editor = useEditor();
+  const hulls = useValue('cluster hulls', () => {
+    const pageId = editor.getCurrentPageId();
+    const textShapes = new Map<string, ShapeTextData>();
+    editor.getCurrentPageShapes().forEach((shape) => {
+      const text = getShapeText(editor, shape);
+      const bounds = editor.getShapePageBounds(shape);
+      if (text && bounds) {
+        textShapes.set(shape.id, { text, center: bounds.center, type: shape.type, pageId });
+      }
+    });
+    const { shapes, links } = getClusterInputs(editor, textShapes);
+    return clusterShapes(shapes, links, { threshold })
+      .map(cluster => getClusterHull(cluster, 12));
+  }, [editor]);
+
+  return (
+    <svg style={styles.clusterOverlay} width={1} height={1}>
+      {hulls.map((hull, index) => (
+        <polygon
+          key={index}
+          points={hull.map(point => `${point.x},${point.y}`).join(' ')}
+          fill="rgba(0, 102, 204, 0.06)"
+          stroke="rgba(0, 102, 204, 0.6)"
+          strokeWidth={2}
+          strokeDasharray="8 6"
+        />
+      ))}
+    </svg>
+  );
+};
+
+interface SearchResultItemProps {
+  hit: SearchHit;
+  terms: string[];
+  isActive: boolean;
+  onSelect: () => void;
+  onHoverChange: (hovered: boolean) => void;
+}
+
+const SearchResultItem: React.FC<SearchResultItemProps> = ({ hit, terms, isActive, onSelect, onHoverChange }) => {
+  const { item, similarity, keywordScore } = hit;
+  const snippet = useMemo(() => buildSnippet(item.name, terms), [item.name, terms]);
+
+  return (
+    <li
+      id={`search-result-${item.id}`}
+      style={{
+        ...styles.resultItem,
+        backgroundColor: isActive ? '#e6f0fa' : '#ffffff',
+        cursor: 'pointer'
+      }}
+      onClick={onSelect}
+      onMouseEnter={() => onHoverChange(true)}
+      onMouseLeave={() => onHoverChange(false)}
+      aria-selected={isActive}
+      role="option"
+    >
+      <span style={styles.resultMeta}>
+        {item.shapeTypes?.length > 0 && (
+          <span style={styles.resultType}>
+            {item.shapeTypes.map(getShapeTypeLabel).join(', ')}
+          </span>
+        )}
+        <span style={styles.resultScore}>
+          {similarity !== null ? `${Math.round(similarity * 100)}% match` : ''}
+          {similarity !== null && keywordScore !== null ? ' · ' : ''}
+          {keywordScore !== null ? 'keyword' : ''}
+        </span>
+      </span>
+      {snippet.map((part, index) => part.highlight ? (
+        <mark key={index} style={styles.resultHighlight}>{part.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      ))}
+    </li>
+  );
+};
+
+interface CitationChipProps {
+  citation: Citation;
+  editor: Editor | null;
+  onFocus: (shapeIds: TLShapeId[]) => void;
+}
+
+// A cited source; flagged once its shapes are gone from the board
+const CitationChip: React.FC<CitationChipProps> = ({ citation, editor, onFocus }) => {
+  const liveIds = useValue(
+    'cited shapes',
+    () => citation.shapeIds.filter(id => editor?.getShape(id as TLShapeId)) as TLShapeId[],
+    [editor, citation]
+  );
+  const missing = liveIds.length === 0;
+  const partial = !missing && liveIds.length < citation.shapeIds.length;
+
+  return (
+    <button
+      type="button"
+      style={missing ? { ...styles.citationChip, ...styles.citationChipMissing } : styles.citationChip}
+      onClick={() => onFocus(liveIds)}
+      disabled={missing}
+      title={
+        missing
+          ? 'The cited shapes are no longer on the board'
+          : partial
+            ? 'Some of the cited shapes are no longer on the board'
+            : 'Show on the board'
+      }
+    >
+      <span style={styles.citationRef}>#{citation.ref}</span>
+      {citation.label}
+      {partial && ' *'}
+    </button>
+  );
 };
 
-const PERSISTENCE_KEY = 'tldraw-whiteboard-state';
+// Images sent with a question, including the single screenshot of older threads
+const getMessageImages = (message: ChatMessage): ContextImage[] =>
+  message.screenshots || (message.screenshot ? [{ src: message.screenshot, refs: [] }] : []);
+
+// Failures of the chat request carry a code; anything else (e.g. a selection
+// without text) is shown as is
+const getMessageError = (error: unknown): Pick<ChatMessage, 'error' | 'errorCode' | 'retryAfter'> =>
+  error instanceof ChatApiError
+    ? { error: error.message, errorCode: error.code, retryAfter: error.retryAfter }
+    : { error: (error as Error)?.message || 'Sorry, there was an error processing your message.' };
+
+const CONTEXT_EXCLUSION_LABELS: Record<ChatContextSummary['excluded'][number]['reason'], string> = {
+  'below-floor': 'below similarity floor',
+  'duplicate': 'repeats another source',
+  'budget': 'over token budget'
+};
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  isLoading?: boolean;
+// The context an answer was given, collapsed under a one-line summary
+const ContextDetails: React.FC<{ context: ChatContextSummary }> = ({ context }) => (
+  <details style={styles.contextDetails}>
+    <summary style={styles.contextSummary}>
+      Context: {context.included.length} source{context.included.length === 1 ? '' : 's'},{' '}
+      {context.tokens}/{context.budget} tokens{context.model ? ` (${context.model})` : ''}
+    </summary>
+    <ul style={styles.contextList}>
+      {context.included.map(source => (
+        <li key={source.ref} style={styles.contextItem}>
+          <span style={styles.citationRef}>#{source.ref}</span>
+          {source.text}
+          <span style={styles.contextMeta}>
+            {' '}{source.tokens} tokens
+            {source.similarity !== null && `, similarity ${source.similarity.toFixed(2)}`}
+            {source.near.length > 0 && `, next to ${source.near.map(ref => `#${ref}`).join(' ')}`}
+          </span>
+        </li>
+      ))}
+      {context.excluded.map(source => (
+        <li key={source.ref} style={{ ...styles.contextItem, ...styles.contextItemExcluded }}>
+          <span style={styles.citationRef}>#{source.ref}</span>
+          {source.title}
+          {source.snippet && <span style={styles.contextMeta}> {source.snippet}</span>}
+          <span style={styles.contextMeta}> left out: {CONTEXT_EXCLUSION_LABELS[source.reason]}</span>
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+interface SettingsPaneProps {
+  // The values shown: this board's, or the defaults for all boards
+  settings: AppSettings;
+  scope: SettingsScope;
+  onScopeChange: (scope: SettingsScope) => void;
+  onChange: (update: Partial<AppSettings>) => void;
+  // Set when this board overrides some defaults
+  onResetBoard: (() => void) | null;
+  chatMode: ChatMode | null;
+  serverChatInfo: ChatProviderInfo | null;
+  onClose: () => void;
 }
 
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SettingsPane: React.FC<SettingsPaneProps> = ({
+  settings,
+  scope,
+  onScopeChange,
+  onChange,
+  onResetBoard,
+  chatMode,
+  serverChatInfo,
+  onClose
+}) => {
+  const provider = serverChatInfo?.providers?.find(option => option.id === settings.provider);
+  const { visualBudget } = settings;
+  return (
+    <div style={styles.settingsPane}>
+      <h3 style={styles.settingsTitle}>Settings</h3>
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>
+          Apply to
+          <select
+            value={scope}
+            onChange={(e) => onScopeChange(e.target.value as SettingsScope)}
+            style={styles.settingInput}
+          >
+            <option value="board">This board</option>
+            <option value="global">All boards (defaults)</option>
+          </select>
+        </label>
+        <div style={styles.settingHelp}>
+          {scope === 'board'
+            ? 'Changes apply to this board only.'
+            : 'Used by every board that does not set its own value.'}
+        </div>
+        {scope === 'board' && onResetBoard && (
+          <button type="button" style={styles.boardButton} onClick={onResetBoard}>
+            Use defaults for this board
+          </button>
+        )}
+      </div>
+
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>
+          Clustering distance: {settings.clusterThreshold} px
+          <input
+            type="range"
+            {...SETTING_RANGES.clusterThreshold}
+            value={settings.clusterThreshold}
+            onChange={(e) => onChange({ clusterThreshold: Number(e.target.value) })}
+          />
+        </label>
+        <div style={styles.settingHelp}>
+          Shapes closer than this are searched as one group. The board needs re-indexing after a change.
+        </div>
+        <label style={styles.searchModeToggle}>
+          <input
+            type="checkbox"
+            checked={settings.recognizeImages}
+            onChange={(e) => onChange({ recognizeImages: e.target.checked })}
+          />
+          Read text in images and drawings
+        </label>
+        <div style={styles.settingHelp}>
+          Downloads the Florence-2 model once, then runs it in this browser.
+        </div>
+      </div>
+
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>
+          Chat sources considered: {settings.chatTopK}
+          <input
+            type="range"
+            {...SETTING_RANGES.chatTopK}
+            value={settings.chatTopK}
+            onChange={(e) => onChange({ chatTopK: Number(e.target.value) })}
+          />
+        </label>
+        <div style={styles.settingHelp}>Search hits a question draws on, before the token budget applies.</div>
+      </div>
+
+      <div style={styles.settingGroup}>
+        {chatMode === 'server' && serverChatInfo?.providers && (
+          <label style={styles.settingLabel}>
+            Provider
+            <select
+              value={settings.provider}
+              onChange={(e) => onChange({ provider: e.target.value })}
+              style={styles.settingInput}
+            >
+              <option value="">Server default ({serverChatInfo.provider})</option>
+              {serverChatInfo.providers.map(option => (
+                <option key={option.id} value={option.id} disabled={!option.configured}>
+                  {option.label}{option.configured ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {chatMode !== 'browser' ? (
+          <label style={styles.settingLabel}>
+            Model
+            <input
+              type="text"
+              value={settings.chatModel}
+              onChange={(e) => onChange({ chatModel: e.target.value })}
+              onBlur={(e) => onChange({ chatModel: e.target.value.trim() })}
+              placeholder={provider?.model || serverChatInfo?.model || 'Provider default'}
+              style={styles.settingInput}
+            />
+          </label>
+        ) : (
+          <div style={styles.settingHelp}>
+            Without a chat server, answers come from the model set under Chat connection.
+          </div>
+        )}
+        <label style={styles.settingLabel}>
+          Longest answer: {settings.maxTokens} tokens
+          <input
+            type="range"
+            {...SETTING_RANGES.maxTokens}
+            value={settings.maxTokens}
+            onChange={(e) => onChange({ maxTokens: Number(e.target.value) })}
+          />
+        </label>
+        {chatMode === 'browser' && (
+          <div style={styles.settingHelp}>The endpoint and key are set under Chat connection.</div>
+        )}
+      </div>
+
+      <div style={styles.settingGroup}>
+        <label style={styles.searchModeToggle}>
+          <input
+            type="checkbox"
+            checked={settings.sendScreenshots}
+            onChange={(e) => onChange({ sendScreenshots: e.target.checked })}
+          />
+          Send screenshots with questions
+        </label>
+        {settings.sendScreenshots && (
+          <>
+            <label style={styles.settingLabel}>
+              Screenshots per question: {visualBudget.maxImages}
+              <input
+                type="range"
+                {...SETTING_RANGES.maxImages}
+                value={visualBudget.maxImages}
+                onChange={(e) => onChange({ visualBudget: { ...visualBudget, maxImages: Number(e.target.value) } })}
+              />
+            </label>
+            <label style={styles.settingLabel}>
+              Total resolution: {(visualBudget.maxPixels / 1e6).toFixed(1)} MP
+              <input
+                type="range"
+                {...SETTING_RANGES.maxPixels}
+                value={visualBudget.maxPixels}
+                onChange={(e) => onChange({ visualBudget: { ...visualBudget, maxPixels: Number(e.target.value) } })}
+              />
+            </label>
+            <label style={styles.settingLabel}>
+              Total size: {formatMegabytes(visualBudget.maxBytes)}
+              <input
+                type="range"
+                {...SETTING_RANGES.maxBytes}
+                value={visualBudget.maxBytes}
+                onChange={(e) => onChange({ visualBudget: { ...visualBudget, maxBytes: Number(e.target.value) } })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <button type="button" style={styles.boardButton} onClick={onClose}>
+        Close
+      </button>
+    </div>
+  );
+};
+
 // Add this component near the top of the file, before the Home component
 const LoadingSpinner: React.FC = () => (
   <div style={{
@@ -127,11 +660,128 @@ const LoadingSpinner: React.FC = () => (
   </div>
 );
 
-export default function Home() {
+interface BoardSwitcherProps {
+  boards: BoardMeta[];
+  boardId: string;
+  onSwitch: (boardId: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const BoardSwitcher: React.FC<BoardSwitcherProps> = ({
+  boards,
+  boardId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => (
+  <div style={styles.boardSwitcher}>
+    <select
+      value={boardId}
+      onChange={(e) => onSwitch(e.target.value)}
+      style={styles.boardSelect}
+      title="Switch board"
+    >
+      {boards.map(board => (
+        <option key={board.id} value={board.id}>{board.name}</option>
+      ))}
+    </select>
+    <button type="button" style={styles.boardButton} onClick={onCreate} title="New board">New</button>
+    <button type="button" style={styles.boardButton} onClick={onRename} title="Rename board">Rename</button>
+    <button type="button" style={styles.boardButton} onClick={onDuplicate} title="Duplicate board">Duplicate</button>
+    <button
+      type="button"
+      style={styles.boardButton}
+      onClick={onDelete}
+      disabled={boards.length <= 1}
+      title="Delete board"
+    >
+      Delete
+    </button>
+    <button type="button" style={styles.boardButton} onClick={onExport} title="Export board to a file">Export</button>
+    <label style={styles.boardButton} title="Import a board file">
+      Import
+      <input
+        type="file"
+        accept={`${BOARD_BUNDLE_EXTENSION},application/json`}
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+    </label>
+  </div>
+);
+
+interface BoardViewProps {
+  boardId: string;
+  boardSwitcher: React.ReactNode;
+}
+
+// One board: its canvas, vector index and chat. Mounted with key={boardId}, so
+// switching boards starts from a clean slate.
+const BoardView: React.FC<BoardViewProps> = ({ boardId, boardSwitcher }) => {
+  const indexNamespace = getBoardIndexNamespace(boardId);
   const [query, setQuery] = useState<string>('');
-  const [results, setResults] = useState<ObjectItem[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [minSimilarity, setMinSimilarity] = useState(DEFAULT_MIN_SIMILARITY);
+  const [activeResultIndex, setActiveResultIndex] = useState(-1);
+  // Camera before keyboard previews started, restored on Escape
+  const previewOriginRef = useRef<{ pageId: TLPageId; camera: TLCamera } | null>(null);
   const [editor, setEditor] = useState<Editor | null>(null);
   const embeddingIndexRef = useRef<EmbeddingIndex | null>(null);
+  // Current index entries by cluster id, mirrored in IndexedDB
+  const indexEntriesRef = useRef<Map<string, ObjectItem>>(new Map());
+  const indexReadyRef = useRef<Promise<void> | null>(null);
+  const embeddingCacheRef = useRef<Map<string, number[]>>(new Map());
+  // Embedding job of the running index update, and of the latest search
+  const indexAbortRef = useRef<AbortController | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  // Model the stored vectors come from, and the one being rebuilt with, if any
+  const [indexModel, setIndexModel] = useState<EmbeddingModelOption | null>(null);
+  const [preferredModel, setPreferredModel] = useState(loadPreferredEmbeddingModel);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const rebuildModelRef = useRef<EmbeddingModelOption | null>(null);
+  // Provider and model the chat route answers with by default
+  const [serverChatInfo, setServerChatInfo] = useState<ChatProviderInfo | null>(null);
+  // Whether chat goes through /api/chat or, in the static build, from the browser
+  const [chatMode, setChatMode] = useState<ChatMode | null>(null);
+  const [browserChatSettings, setBrowserChatSettings] = useState(loadBrowserChatSettings);
+  // Defaults for all boards, and the values this board overrides
+  const [globalSettings, setGlobalSettings] = useState(loadGlobalSettings);
+  const [boardSettings, setBoardSettings] = useState(() => loadBoardSettings(boardId));
+  const settings = resolveSettings(globalSettings, boardSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsScope, setSettingsScope] = useState<SettingsScope>('board');
+  // Clustering distance of the last completed index update
+  const [indexedThreshold, setIndexedThreshold] = useState<number | null>(null);
+  // Model answers come from, which sets the context budget
+  // In browser mode only the chat connection's model is used
+  const chatModel = (chatMode === 'browser'
+    ? browserChatSettings.model
+    : settings.chatModel.trim()
+      || serverChatInfo?.providers?.find(option => option.id === settings.provider)?.model
+      || serverChatInfo?.model)
+    || null;
+  // Set until the update diffing the stored index against the loaded board completes
+  const reconcilingRef = useRef(false);
+  const [reconcileReport, setReconcileReport] = useState<ReconcileReport | null>(null);
+  const lastTextShapesRef = useRef<Map<string, ShapeTextData> | null>(null);
+  // Keyword index over the same entries, for exact identifiers and names
+  const [keywordIndex] = useState(() => createKeywordIndex());
+  const [searchMode, setSearchMode] = useState<SearchMode>('hybrid');
+  const [embeddingStatus, setEmbeddingStatus] = useState<EmbeddingStatus>(embeddingClient.getStatus());
   const [store] = useState(() => createTLStore());
   const [isLoading, setIsLoading] = useState(false);
   const [loadingState, setLoadingState] = useState<
@@ -142,11 +792,38 @@ export default function Home() {
   const [isChatMode, setIsChatMode] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
-  const [currentScreenshot, setCurrentScreenshot] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [currentThreadId, setCurrentThreadId] = useState<string | null>(null);
+  // Messages as last loaded from or saved to the current thread
+  const savedMessagesRef = useRef<ChatMessage[]>(messages);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const [chatScope, setChatScope] = useState<ChatScope>('all-pages');
+  const [showClusters, setShowClusters] = useState(false);
+  const selectionActionRef = useRef<((actionId: SelectionActionId) => void) | null>(null);
+  const dictateNoteRef = useRef<(() => void) | null>(null);
+  const [SelectionContextMenu] = useState(() =>
+    createSelectionContextMenu(
+      actionId => selectionActionRef.current?.(actionId),
+      () => dictateNoteRef.current?.()
+    )
+  );
+  // Voice input: what the running recording is for, and whether it is being transcribed
+  const [dictation, setDictation] = useState<{ target: DictationTarget; state: 'recording' | 'transcribing' } | null>(null);
+  const [dictationError, setDictationError] = useState<string | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const tldrawComponents = useMemo<TLComponents>(() => ({
+    OnTheCanvas: showClusters ? createClusterOverlay(settings.clusterThreshold) : null,
+    ContextMenu: SelectionContextMenu
+  }), [showClusters, settings.clusterThreshold, SelectionContextMenu]);
+  const hasSelection = useValue(
+    'has selection',
+    () => (editor ? editor.getSelectedShapeIds().length > 0 : false),
+    [editor]
+  );
   // Load persisted state
   useEffect(() => {
     try {
-      const persistedState = localStorage.getItem(PERSISTENCE_KEY);
+      const persistedState = localStorage.getItem(getBoardSnapshotKey(boardId));
       if (persistedState) {
         const state = JSON.parse(persistedState);
         store.loadSnapshot(state);
@@ -155,7 +832,76 @@ export default function Home() {
     } catch (error: any) {
       setLoadingState({ status: 'error', error: error.message });
     }
-  }, [store]);
+  }, [store, boardId]);
+
+  // Stable, since it only touches state setters and a ref
+  const openThread = useCallback((thread: ChatThread | null) => {
+    savedMessagesRef.current = thread ? thread.messages : [];
+    setMessages(savedMessagesRef.current);
+    setCurrentThreadId(thread ? thread.id : null);
+  }, []);
+
+  // Restore this board's threads and resume the most recent one
+  useEffect(() => {
+    let cancelled = false;
+    loadThreads(boardId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setThreads(loaded);
+        openThread(loaded[0] || null);
+      })
+      .catch(error => console.error('Failed to load chat threads:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, openThread]);
+
+  // Save the current thread once an answer has finished. Other changes rerun this,
+  // but messages already saved are skipped.
+  useEffect(() => {
+    if (messages === savedMessagesRef.current) return;
+    if (messages.length === 0 || messages.some(msg => msg.isLoading)) return;
+    savedMessagesRef.current = messages;
+
+    const now = Date.now();
+    const existing = threads.find(thread => thread.id === currentThreadId);
+    const thread: ChatThread = existing
+      ? { ...existing, messages: toStoredMessages(messages), updatedAt: now }
+      : {
+        id: currentThreadId || createThreadId(),
+        title: getDefaultThreadTitle(messages),
+        createdAt: now,
+        updatedAt: now,
+        messages: toStoredMessages(messages)
+      };
+
+    setCurrentThreadId(thread.id);
+    setThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    saveThread(boardId, thread).catch(error => console.error('Failed to save chat thread:', error));
+  }, [messages, threads, currentThreadId, boardId]);
+
+  const handleSelectThread = (threadId: string) => {
+    openThread(threads.find(thread => thread.id === threadId) || null);
+  };
+
+  const handleRenameThread = () => {
+    const thread = threads.find(t => t.id === currentThreadId);
+    if (!thread) return;
+    const title = window.prompt('Rename conversation', thread.title)?.trim();
+    if (!title) return;
+    const renamed = { ...thread, title };
+    setThreads(prev => prev.map(t => (t.id === renamed.id ? renamed : t)));
+    saveThread(boardId, renamed).catch(error => console.error('Failed to rename chat thread:', error));
+  };
+
+  const handleDeleteThread = async () => {
+    const thread = threads.find(t => t.id === currentThreadId);
+    if (!thread || !window.confirm(`Delete the conversation "${thread.title}"?`)) return;
+    await deleteThread(boardId, thread.id).catch(error => console.error('Failed to delete chat thread:', error));
+    const remaining = threads.filter(t => t.id !== thread.id);
+    setThreads(remaining);
+    openThread(remaining[0] || null);
+  };
 
   // Save state on changes
   useEffect(() => {
@@ -164,7 +910,7 @@ export default function Home() {
     const handleChange = () => {
       try {
         const snapshot = editor.store.getSnapshot();
-        localStorage.setItem(PERSISTENCE_KEY, JSON.stringify(snapshot));
+        localStorage.setItem(getBoardSnapshotKey(boardId), JSON.stringify(snapshot));
         console.log('Saved whiteboard state to localStorage');
       } catch (error) {
         console.error('Failed to save whiteboard state:', error);
@@ -175,278 +921,777 @@ export default function Home() {
     return () => {
       cleanup();
     };
-  }, [editor]);
+  }, [editor, boardId]);
 
-  // Initialize embedding index
+  // Initialize embedding index from the persisted entries. Queries are embedded
+  // with the model recorded for the index, whatever model is preferred.
   useEffect(() => {
-    embeddingIndexRef.current = new EmbeddingIndex();
-    embeddingIndexRef.current.getAllObjectsFromIndexedDB('indexedDB').catch(console.error);
-  }, []);
+    const index = new EmbeddingIndex();
+    embeddingIndexRef.current = index;
+    indexReadyRef.current = Promise.all([loadIndexMeta(indexNamespace), loadIndexEntries(indexNamespace)])
+      .then(async ([meta, entries]) => {
+        // Indexes from before model choice were built with the default model
+        const recorded = meta
+          ? getEmbeddingModel(meta.model.id)
+          : entries.length > 0 ? DEFAULT_EMBEDDING_MODEL : loadPreferredEmbeddingModel();
+        if (!recorded) {
+          // A model this app no longer offers can't embed queries, so rebuild with one it does
+          const model = loadPreferredEmbeddingModel();
+          console.log('Index model unavailable, rebuilding with', model.id);
+          await startRebuild(model);
+          return;
+        }
+        const model = recorded;
+        if (!meta) await saveIndexMeta(indexNamespace, toIndexMeta(model, false));
+
+        embeddingClient.setModel(model);
+        setIndexModel(model);
+        if (meta?.rebuilding) {
+          console.log('Resuming index rebuild with', model.id);
+          rebuildModelRef.current = model;
+          setIsRebuilding(true);
+        }
+        // Vectors of another size would break similarity search
+        const usable = entries.filter(entry => entry.embedding?.length === model.dimensions);
+        usable.map(normalizeIndexEntry).forEach((entry) => {
+          indexEntriesRef.current.set(entry.id, entry);
+          index.add(entry);
+          keywordIndex.add(entry.id, entry.name);
+        });
+        console.log(`Loaded ${usable.length} index entries (${model.id})`, {
+          skipped: entries.length - usable.length
+        });
+      })
+      .catch(console.error);
+  }, [indexNamespace]);
+
+  // Replace every vector with ones from the given model. The rebuild is recorded in
+  // the index metadata and finished batches in the embedding cache, so after a
+  // reload it resumes where it stopped.
+  const startRebuild = async (model: EmbeddingModelOption) => {
+    rebuildModelRef.current = model;
+    setIsRebuilding(true);
+    embeddingIndexRef.current?.clear();
+    keywordIndex.clear();
+    indexEntriesRef.current.clear();
+    embeddingCacheRef.current.clear();
+    await clearIndexStore(indexNamespace, toIndexMeta(model, true));
+    embeddingClient.setModel(model);
+    setIndexModel(model);
+    if (editor) scheduleIndexUpdate(collectTextShapes(editor));
+  };
 
-  const updateVectorIndex = async (textShapes: Map<string, { text: string; center: Vec }>) => {
-    if (!embeddingIndexRef.current || !editor) return;
+  // Updates wait for indexReadyRef, so none runs against a half-cleared index
+  const handleRebuildIndex = async (model: EmbeddingModelOption) => {
+    await indexReadyRef.current;
+    indexAbortRef.current?.abort();
+    indexRunner.cancel();
+    await indexRunner.flush();
+    console.log('Rebuilding index with', model.id);
+    indexReadyRef.current = startRebuild(model).catch(console.error);
+  };
 
-    console.log('Starting index update...');
+  const handleKeepIndexModel = () => {
+    if (!indexModel) return;
+    savePreferredEmbeddingModel(indexModel);
+    setPreferredModel(indexModel);
+  };
 
-    // Get all existing objects to track what needs to be deleted
-    const existingObjects = await embeddingIndexRef.current.getAllObjectsFromIndexedDB('indexedDB');
-    const existingShapeIds = new Map(existingObjects.map(obj => [obj.shapeId, obj]));
+  // Embeddings are cached by text hash, in memory and in IndexedDB. The rest are
+  // computed by the embedding worker in one job, caching each batch as it arrives.
+  const getEmbeddingsFor = async (texts: string[], signal: AbortSignal) => {
+    const hashes = texts.map(text => hashString(text));
+    const results = await Promise.all(hashes.map(async textHash =>
+      embeddingCacheRef.current.get(textHash)
+      || await getCachedEmbedding(indexNamespace, textHash).catch(() => null)
+    ));
+    results.forEach((embedding, i) => {
+      if (embedding) embeddingCacheRef.current.set(hashes[i], embedding);
+    });
+
+    const missing = results.flatMap((embedding, i) => (embedding ? [] : [i]));
+    await embeddingClient.embed(missing.map(i => texts[i]), {
+      signal,
+      onBatch: (start, embeddings) => embeddings.forEach((embedding, j) => {
+        const i = missing[start + j];
+        results[i] = embedding;
+        embeddingCacheRef.current.set(hashes[i], embedding);
+        putCachedEmbedding(indexNamespace, hashes[i], embedding).catch(console.error);
+      })
+    });
+    return results as number[][];
+  };
 
-    const shapes = Array.from(textShapes.entries()).map(([id, data]) => ({
-      id,
-      text: data.text,
-      center: data.center
-    }));
+  const updateVectorIndex = async (textShapes: Map<string, ShapeTextData>) => {
+    const index = embeddingIndexRef.current;
+    if (!index || !editor) return;
 
-    // Create clusters as before
-    const clusters = shapes.reduce((acc: { shapes: any[], center: Vec }[], shape) => {
-      const existingCluster = acc.find(cluster => 
-        calculateDistance(shape.center, cluster.center) < CLUSTER_THRESHOLD
-      );
+    await indexReadyRef.current;
+    console.log('Starting index update...');
+    const abortController = new AbortController();
+    indexAbortRef.current = abortController;
 
-      if (existingCluster) {
-        existingCluster.shapes.push(shape);
-        existingCluster.center = {
-          x: existingCluster.shapes.reduce((sum, s) => sum + s.center.x, 0) / existingCluster.shapes.length,
-          y: existingCluster.shapes.reduce((sum, s) => sum + s.center.y, 0) / existingCluster.shapes.length
-        };
-      } else {
-        acc.push({
-          shapes: [shape],
-          center: shape.center
-        });
-      }
-      return acc;
-    }, []);
+    // Group shapes by proximity, frames and arrows, never across pages
+    const { clusterThreshold } = settings;
+    const { shapes, links } = getClusterInputs(editor, textShapes);
+    const clusters = clusterShapes(shapes, links, { threshold: clusterThreshold });
+
+    // Only clusters whose members or text changed need a new embedding;
+    // clusters that just moved get their stored geometry refreshed
+    const liveIds = new Set<string>();
+    const added: ObjectItem[] = [];
+    const moved: ObjectItem[] = [];
+    const unembedded: { id: string; combinedText: string; contentHash: string; cluster: ShapeCluster }[] = [];
 
     for (const cluster of clusters) {
-      const combinedText = cluster.shapes
+      const combinedText = cluster.members
         .map(shape => shape.text.trim())
         .filter(Boolean)
         .join(' ');
-      
-      if (combinedText) {
-        try {
-          // Check if any shape in this cluster has an existing embedding
-          const existingEmbeddings = cluster.shapes
-            .map(shape => existingShapeIds.get(shape.id))
-            .filter(Boolean);
-
-          if (existingEmbeddings.length > 0) {
-            console.log('Found existing embeddings for cluster:', {
-              text: combinedText,
-              count: existingEmbeddings.length
-            });
-
-            // Remove old embeddings
-            for (const existing of existingEmbeddings) {
-              await embeddingIndexRef.current.remove({ id: existing.id });
-              console.log('Removed old embedding:', {
-                id: existing.id,
-                text: existing.name,
-                shapeId: existing.shapeId
-              });
-            }
-          }
-
-          // Create new embedding without position
-          const embedding = await getEmbeddingWithRetry(combinedText);
-          const object: ObjectItem = {
-            id: `cluster-${Date.now()}-${Math.random()}`,
-            name: combinedText,
-            embedding,
-            shapeId: cluster.shapes[0].id
-          };
-          
-          await embeddingIndexRef.current.add(object);
-          console.log('Added/Updated embedding:', {
-            text: combinedText,
-            shapeId: object.shapeId
-          });
-
-        } catch (error) {
-          console.error('Failed to process cluster:', error);
+      if (!combinedText) continue;
+
+      const contentHash = hashClusterContent(cluster.members);
+      const id = clusterIdFromHash(contentHash);
+      liveIds.add(id);
+
+      const existing = indexEntriesRef.current.get(id);
+      if (existing) {
+        if (!boundsEqual(existing.bounds, cluster.bounds)) {
+          moved.push({ ...existing, bounds: cluster.bounds });
         }
+        continue;
+      }
+
+      unembedded.push({ id, combinedText, contentHash, cluster });
+    }
+
+    // New clusters are embedded in one batched job. A newer board state cancels it
+    // and the runner starts over with that state; finished batches stay cached.
+    let embeddings: number[][] = [];
+    try {
+      embeddings = await getEmbeddingsFor(unembedded.map(item => item.combinedText), abortController.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Index update superseded by newer changes');
+        return;
       }
+      console.error('Failed to embed clusters:', error);
     }
 
-    await embeddingIndexRef.current.saveIndex('indexedDB');
-    console.log('Index update completed');
+    let skipped = 0;
+    const skippedShapeIds = new Set<string>();
+    unembedded.forEach(({ id, combinedText, contentHash, cluster }, i) => {
+      const embedding = embeddings[i];
+      if (!embedding) {
+        liveIds.delete(id);
+        skipped++;
+        cluster.members.forEach(shape => skippedShapeIds.add(shape.id));
+        return;
+      }
+      added.push({
+        id,
+        name: combinedText,
+        embedding,
+        shapeId: cluster.members[0].id,
+        memberIds: cluster.members.map(shape => shape.id),
+        shapeTypes: Array.from(new Set(cluster.members.map(shape => shape.type))),
+        pageId: cluster.pageId,
+        bounds: cluster.bounds,
+        contentHash
+      });
+    });
+
+    // Older entries of clusters that could not be embedded stay searchable until a
+    // later update (the next edit, or Retry) embeds the new text
+    indexEntriesRef.current.forEach((entry, id) => {
+      if (entry.memberIds.some(shapeId => skippedShapeIds.has(shapeId))) liveIds.add(id);
+    });
+
+    // Entries for clusters that no longer exist, including deleted shapes
+    const removedIds = Array.from(indexEntriesRef.current.keys()).filter(id => !liveIds.has(id));
+    const orphanedIds = new Set(removedIds.filter(id =>
+      indexEntriesRef.current.get(id)!.memberIds.some(shapeId => !editor.getShape(shapeId as TLShapeId))
+    ));
+
+    const changed = [...added, ...moved];
+
+    index.removeBatch([...removedIds, ...moved.map(entry => entry.id)].map(id => ({ id })));
+    removedIds.forEach((id) => {
+      indexEntriesRef.current.delete(id);
+      keywordIndex.remove(id);
+    });
+    changed.forEach((entry) => {
+      indexEntriesRef.current.set(entry.id, entry);
+      index.add(entry);
+      keywordIndex.add(entry.id, entry.name);
+    });
+
+    await saveIndexChanges(indexNamespace, changed, removedIds);
+    console.log('Index update completed:', {
+      added: added.length,
+      moved: moved.length,
+      removed: removedIds.length,
+      unchanged: liveIds.size - changed.length
+    });
+    setIndexedThreshold(clusterThreshold);
+
+    // Report what the first update after loading found out of sync; a rebuild
+    // re-indexes everything, which is not worth reporting
+    if (reconcilingRef.current) {
+      reconcilingRef.current = false;
+      const report: ReconcileReport = {
+        orphaned: removedIds.filter(id => orphanedIds.has(id)).length,
+        stale: removedIds.filter(id => !orphanedIds.has(id)).length,
+        indexed: added.length,
+        moved: moved.length,
+        skipped
+      };
+      console.log('Index reconciled with the board:', report);
+      if (!rebuildModelRef.current && hasReconcileFixes(report)) setReconcileReport(report);
+    }
+
+    // The rebuild is complete once every cluster has an embedding from the new model
+    const rebuildModel = rebuildModelRef.current;
+    if (rebuildModel && skipped === 0) {
+      await saveIndexMeta(indexNamespace, toIndexMeta(rebuildModel, false));
+      rebuildModelRef.current = null;
+      setIsRebuilding(false);
+      console.log('Index rebuild completed:', rebuildModel.id);
+    }
+  };
+
+  // Latest updateVectorIndex, so the long-lived runner never calls a stale closure
+  const updateVectorIndexRef = useRef(updateVectorIndex);
+  updateVectorIndexRef.current = updateVectorIndex;
+
+  const [indexRunner] = useState(() => createCoalescingRunner(
+    (textShapes: Map<string, ShapeTextData>) => updateVectorIndexRef.current(textShapes),
+    INDEX_DEBOUNCE_MS
+  ));
+
+  // A newer board state makes the embedding job of a running update stale
+  const [scheduleIndexUpdate] = useState(() => (textShapes: Map<string, ShapeTextData>) => {
+    lastTextShapesRef.current = textShapes;
+    indexAbortRef.current?.abort();
+    indexRunner.schedule(textShapes);
+  });
+
+  useEffect(() => embeddingClient.subscribe(setEmbeddingStatus), []);
+
+  useEffect(() => {
+    detectChatMode().then(({ mode, info }) => {
+      console.log(`Chat mode: ${mode}`);
+      setChatMode(mode);
+      setServerChatInfo(info);
+    });
+  }, []);
+
+  const handleBrowserChatSettingsChange = (update: Partial<BrowserChatSettings>) => {
+    const next = { ...browserChatSettings, ...update };
+    setBrowserChatSettings(next);
+    saveBrowserChatSettings(next);
+  };
+
+  // Edits go to the defaults or to this board's overrides, depending on the scope
+  const handleSettingsChange = (update: Partial<AppSettings>) => {
+    if (settingsScope === 'global') {
+      const next = { ...globalSettings, ...update };
+      setGlobalSettings(next);
+      saveGlobalSettings(next);
+    } else {
+      const next = { ...boardSettings, ...update };
+      setBoardSettings(next);
+      saveBoardSettings(boardId, next);
+    }
+  };
+
+  const handleResetBoardSettings = () => {
+    setBoardSettings({});
+    saveBoardSettings(boardId, {});
+  };
+
+  // Regroup the board with the current clustering distance
+  const handleReindex = () => {
+    if (editor) scheduleIndexUpdate(collectTextShapes(editor));
+  };
+
+  // Once the editor and the stored index are loaded, diff the index against the
+  // board. The snapshot may have been changed by another tab, an interrupted update
+  // or a rebuild, and the change listener only sees edits made from now on.
+  useEffect(() => {
+    if (!editor) return;
+    let cancelled = false;
+    indexReadyRef.current?.then(() => {
+      if (cancelled) return;
+      reconcilingRef.current = true;
+      scheduleIndexUpdate(collectTextShapes(editor));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [editor, scheduleIndexUpdate]);
+
+  // Load the model again, then index whatever was skipped while it was unavailable
+  const handleRetryEmbedding = () => {
+    embeddingClient.retry();
+    if (lastTextShapesRef.current) scheduleIndexUpdate(lastTextShapesRef.current);
+  };
+
+  useEffect(() => () => {
+    indexRunner.cancel();
+    indexAbortRef.current?.abort();
+  }, [indexRunner]);
+
+  // OCR and captions make images and drawings searchable, once the user opts in
+  useEffect(() => {
+    if (!editor || !settings.recognizeImages) return;
+    return startImageTextRecognition(editor);
+  }, [editor, settings.recognizeImages]);
+
+  // Keyword and semantic search over the index, fused into one ranking
+  const searchIndex = async (
+    text: string,
+    { signal, ...searchOptions }: { mode?: SearchMode; topK?: number; pageId?: string; signal?: AbortSignal } = {}
+  ) => {
+    if (!embeddingIndexRef.current) return [];
+    await indexReadyRef.current;
+    return hybridSearch({
+      query: text,
+      embeddingIndex: embeddingIndexRef.current,
+      keywordIndex,
+      entries: indexEntriesRef.current,
+      embed: text => embeddingClient.embedOne(text, { priority: true, query: true, signal }),
+      ...searchOptions
+    });
   };
 
   const handleSearch = async () => {
     if (!query.trim() || !editor || !embeddingIndexRef.current) return;
 
+    // Only the latest query matters
+    searchAbortRef.current?.abort();
+    const abortController = new AbortController();
+    searchAbortRef.current = abortController;
+
     try {
       console.log('Starting search for:', query);
-      const queryEmbedding = await getEmbeddingWithRetry(query);
-      
-      const searchResults = await embeddingIndexRef.current.search(queryEmbedding);
+      const searchResults = await searchIndex(query, {
+        mode: searchMode,
+        topK: 10,
+        signal: abortController.signal
+      });
       console.log('Raw search results:', searchResults);
 
-      const typedResults = searchResults.map(result => result.object) as ObjectItem[];
-      setResults(typedResults);
-      
-      if (typedResults.length > 0) {
-        const topResult = typedResults[0];
-        const shape = editor.getShape(topResult.shapeId);
-        
-        if (shape) {
-          const bounds = editor.getShapePageBounds(shape);
-          if (bounds) {
-            editor.centerOnPoint(bounds.center);
-            editor.select(shape.id);
-            
-            console.log('Centered on shape:', {
-              text: topResult.name,
-              shapeId: topResult.shapeId,
-              currentPosition: bounds.center
-            });
-          }
-        } else {
-          console.log('Shape not found:', topResult.shapeId);
-        }
+      setResults(searchResults);
+      setSearchedQuery(query);
+      setActiveResultIndex(-1);
+      previewOriginRef.current = null;
+
+      const topResult = searchResults.find(hit => isVisibleHit(hit));
+      if (topResult) {
+        focusResult(topResult.item);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error during search:', error);
       setResults([]);
     }
   };
 
-  const handleDeleteIndex = () => {
-    if (embeddingIndexRef.current) {
-      embeddingIndexRef.current.deleteIndexedDB();
-      console.log('Index deleted');
+  // Switch to the result's page, then zoom to and select every surviving member.
+  // Previews only move the camera.
+  const focusResult = (item: ObjectItem, { preview = false } = {}) => {
+    if (!editor) return;
+
+    const shapes = getEntryShapes(editor, item);
+    if (shapes.length === 0) {
+      console.log('No shapes of cluster left:', item.memberIds);
+      return;
+    }
+
+    const pageId = editor.getAncestorPageId(shapes[0]);
+    if (pageId && pageId !== editor.getCurrentPageId()) {
+      editor.setCurrentPage(pageId);
+    }
+
+    const bounds = getEntryBounds(editor, item);
+    if (bounds) {
+      editor.zoomToBounds(bounds, {
+        inset: 64,
+        targetZoom: 1,
+        animation: { duration: preview ? 120 : 200 }
+      });
+      if (preview) return;
+      editor.select(...shapes.map(shape => shape.id));
+      
+      console.log('Navigated to cluster:', {
+        text: item.name,
+        shapeIds: shapes.map(shape => shape.id),
+        pageId,
+        bounds
+      });
     }
   };
 
-  // Add a function to handle result click
-  const handleResultClick = (item: ObjectItem) => {
-    if (!editor) return;
+  // Center on and select the shapes behind a citation
+  const focusCitation = (shapeIds: TLShapeId[]) => {
+    if (!editor || shapeIds.length === 0) return;
 
-    const shape = editor.getShape(item.shapeId);
-    if (shape) {
-      const bounds = editor.getShapePageBounds(shape);
-      if (bounds) {
-        editor.centerOnPoint(bounds.center);
-        editor.select(shape.id);
-        
-        console.log('Navigated to shape:', {
-          text: item.name,
-          shapeId: item.shapeId,
-          currentPosition: bounds.center
-        });
-      }
-    } else {
-      console.log('Shape not found:', item.shapeId);
+    const pageId = editor.getAncestorPageId(shapeIds[0]);
+    if (pageId && pageId !== editor.getCurrentPageId()) {
+      editor.setCurrentPage(pageId);
+    }
+    const onPage = shapeIds.filter(id => editor.getAncestorPageId(id) === pageId);
+    const boxes = onPage
+      .map(id => editor.getShapePageBounds(id))
+      .filter((box): box is Box => Boolean(box));
+    if (boxes.length > 0) {
+      editor.centerOnPoint(Box.Common(boxes).center, { animation: { duration: 200 } });
     }
+    editor.select(...onPage);
   };
 
-  // Add this constant for screenshot dimensions
-  const SCREENSHOT_SIZE = {
-    width: 2560,
-    height: 1440
+  // Add a function to handle result click
+  const handleResultClick = (item: ObjectItem) => {
+    previewOriginRef.current = null;
+    editor?.setHintingShapes([]);
+    focusResult(item);
   };
 
-  // Update the captureAreaAroundShapes function
-  const captureAreaAroundShapes = async (shapes: { position: Vec }[]) => {
-    if (!editor || shapes.length === 0) return null;
+  // Keyword matches always show; semantic-only matches need enough similarity
+  const isVisibleHit = (hit: SearchHit) =>
+    hit.keywordScore !== null || (hit.similarity ?? 0) >= minSimilarity;
+
+  // Results in rank order, grouped by the page they live on
+  const getResultsByPage = () => {
+    const groups = new Map<string, SearchHit[]>();
+    results.filter(isVisibleHit).forEach((hit) => {
+      const group = groups.get(hit.item.pageId) || [];
+      group.push(hit);
+      groups.set(hit.item.pageId, group);
+    });
+    return Array.from(groups.entries()).map(([pageId, hits]) => ({
+      pageId,
+      pageName: (pageId && editor?.getPage(pageId as TLPageId)?.name) || 'Unknown page',
+      hits
+    }));
+  };
 
-    try {
-      // Calculate the median position
-      const positions = shapes.map(s => s.position);
-      const sortedX = [...positions].sort((a, b) => a.x - b.x);
-      const sortedY = [...positions].sort((a, b) => a.y - b.y);
-      
-      const medianX = sortedX[Math.floor(positions.length / 2)].x;
-      const medianY = sortedY[Math.floor(positions.length / 2)].y;
-
-      // Create a fixed-size box centered on the median position
-      const box = new Box(
-        medianX - SCREENSHOT_SIZE.width / 2,
-        medianY - SCREENSHOT_SIZE.height / 2,
-        SCREENSHOT_SIZE.width,
-        SCREENSHOT_SIZE.height
-      );
+  const resultGroups = getResultsByPage();
+  // Keyboard order follows the grouped display order
+  const visibleResults = resultGroups.flatMap(group => group.hits);
+  const highlightTerms = useMemo(() => {
+    const parsed = parseSearchQuery(searchedQuery);
+    return [...parsed.phrases, ...parsed.terms];
+  }, [searchedQuery]);
 
-      // Get all shapes within the box
-      const shapesInBox = editor.getCurrentPageShapes().filter((s) => {
-        const pageBounds = editor.getShapeMaskedPageBounds(s);
-        if (!pageBounds) return false;
-        return box.includes(pageBounds);
-      });
+  // Outline a result's shapes on the canvas while it is hovered
+  const handleResultHover = (hit: SearchHit, hovered: boolean) => {
+    if (!editor) return;
+    editor.setHintingShapes(hovered ? getEntryShapes(editor, hit.item) : []);
+  };
 
-      if (shapesInBox.length === 0) return null;
+  const moveActiveResult = (delta: number) => {
+    if (!editor || visibleResults.length === 0) return;
 
-      // Export the shapes as PNG
-      const blob = await exportToBlob({
-        editor,
-        ids: shapesInBox.map(s => s.id),
-        format: 'png',
-        opts: {
-          bounds: box,
-          background: editor.getInstanceState().exportBackground
-        }
-      });
+    if (!previewOriginRef.current) {
+      previewOriginRef.current = {
+        pageId: editor.getCurrentPageId(),
+        camera: editor.getCamera()
+      };
+    }
 
-      // Convert blob to base64
-      return new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-      });
+    const next = activeResultIndex < 0
+      ? (delta > 0 ? 0 : visibleResults.length - 1)
+      : (activeResultIndex + delta + visibleResults.length) % visibleResults.length;
+    setActiveResultIndex(next);
 
-    } catch (error) {
-      console.error('Failed to capture area:', error);
-      return null;
+    const hit = visibleResults[next];
+    focusResult(hit.item, { preview: true });
+    editor.setHintingShapes(getEntryShapes(editor, hit.item));
+    document.getElementById(`search-result-${hit.item.id}`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const cancelResultPreview = () => {
+    const origin = previewOriginRef.current;
+    if (editor && origin) {
+      if (editor.getPage(origin.pageId)) {
+        editor.setCurrentPage(origin.pageId);
+      }
+      editor.setCamera(origin.camera, { animation: { duration: 120 } });
+      editor.setHintingShapes([]);
     }
+    previewOriginRef.current = null;
+    setActiveResultIndex(-1);
   };
 
-  // Update the generateChatResponse function
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveActiveResult(e.key === 'ArrowDown' ? 1 : -1);
+    } else if (e.key === 'Enter') {
+      const active = visibleResults[activeResultIndex];
+      if (active) {
+        handleResultClick(active.item);
+      } else {
+        handleSearch();
+      }
+    } else if (e.key === 'Escape') {
+      cancelResultPreview();
+    }
+  };
+
+  // Stream the assistant reply, calling onDelta for every chunk of text
   const generateChatResponse = async (
     messages: ChatMessage[], 
-    searchContext: string,
-    base64Image: string | null
-  ) => {
-    try {
+    sources: ContextSource[],
+    images: ContextImage[],
+    onDelta: (content: string) => void,
+    signal: AbortSignal,
+    { canvasActions = true } = {}
+  ): Promise<{ content: string; citations: Citation[]; toolCalls: CanvasToolCall[] }> => {
+    const request: Partial<ChatApiRequest> = {
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      sources,
+      images,
+      provider: settings.provider || undefined,
+      model: chatMode === 'browser' ? undefined : settings.chatModel.trim() || undefined,
+      maxTokens: settings.maxTokens,
+      canvasActions
+    };
+
+    let body: ReadableStream<Uint8Array>;
+    if (chatMode === 'browser') {
+      body = streamBrowserChat(request, browserChatSettings, signal);
+    } else {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          messages,
-          searchContext,
-          base64Image
-        })
+        body: JSON.stringify(request),
+        signal
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to generate response');
+      if (!response.ok || !response.body) {
+        throw await readChatApiError(response);
       }
+      body = response.body;
+    }
 
-      const data = await response.json();
-      return data.content;
+    let content = '';
+    let citations: Citation[] = [];
+    let toolCalls: CanvasToolCall[] = [];
+    for await (const event of readChatStream(body)) {
+      if (event.type === 'delta') {
+        content += event.content;
+        onDelta(content);
+      } else if (event.type === 'citations') {
+        citations = event.citations;
+      } else if (event.type === 'tool_calls') {
+        toolCalls = event.calls;
+      } else if (event.type === 'error') {
+        throw new ChatApiError(event.code || 'upstream_error', event.error, event.retryAfter);
+      }
+    }
 
-    } catch (error) {
-      console.error('Error generating chat response:', error);
-      throw error;
+    return { content, citations, toolCalls };
+  };
+
+  const updateMessage = (index: number, update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map((msg, idx) => 
+      idx === index ? { ...msg, ...update } : msg
+    ));
+  };
+
+  // Replace the last message, which is the assistant reply being streamed
+  const updateLastMessage = (update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map((msg, idx) => 
+      idx === prev.length - 1 ? { ...msg, ...update } : msg
+    ));
+  };
+
+  // Apply the confirmed canvas actions of a message as one undoable step
+  const handleApplyCanvasActions = (index: number) => {
+    const proposal = messages[index]?.canvasActions;
+    if (!editor || !proposal || proposal.status !== 'pending') return;
+
+    editor.setHintingShapes([]);
+    const { applied, rejected } = applyCanvasToolCalls(editor, proposal.calls);
+    console.log(`Applied ${applied} canvas actions`, rejected);
+    const rejectedById = new Map(rejected.map(call => [call.id, call]));
+    updateMessage(index, {
+      canvasActions: {
+        calls: proposal.calls.map(call => rejectedById.get(call.id) || call),
+        status: 'applied'
+      }
+    });
+  };
+
+  const handleDismissCanvasActions = (index: number) => {
+    const proposal = messages[index]?.canvasActions;
+    if (!proposal) return;
+    editor?.setHintingShapes([]);
+    updateMessage(index, { canvasActions: { ...proposal, status: 'dismissed' } });
+  };
+
+  // Preview: hint the shapes an action refers to
+  const previewCanvasAction = (call: CanvasToolCall | null) => {
+    if (!editor) return;
+    const ids = call?.action ? getActionShapeIds(call.action) : [];
+    editor.setHintingShapes(ids.filter(id => editor.getShape(id as TLShapeId)) as TLShapeId[]);
+  };
+
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Run an assistant action on the selected shapes only, and put the answer in a
+  // note linked to the selection. A retry passes the shapes the action first ran on.
+  const handleSelectionAction = async (actionId: SelectionActionId, shapeIds?: string[]) => {
+    const action = SELECTION_ACTIONS.find(a => a.id === actionId);
+    if (!action || !editor || isLoading) return;
+
+    const selectedIds = shapeIds
+      ? (shapeIds as TLShapeId[]).filter(id => editor.getShape(id))
+      : editor.getSelectedShapeIds();
+    if (selectedIds.length === 0) return;
+    // Everything selected is relevant; only the token budget applies
+    const { sources, summary: context } = buildChatContext(getSelectionSources(editor, selectedIds), { model: chatModel });
+
+    const abortController = new AbortController();
+    chatAbortRef.current = abortController;
+    setMessages(prev => [...prev, {
+      role: 'user',
+      content: `${action.label} (${selectedIds.length} selected shape${selectedIds.length === 1 ? '' : 's'})`,
+      selectionAction: action.id,
+      selectionShapeIds: selectedIds
+    }, {
+      role: 'assistant',
+      content: '',
+      isLoading: true,
+      retrievedShapeIds: sources.flatMap(source => source.shapeIds),
+      context
+    }]);
+    setIsLoading(true);
+
+    try {
+      if (sources.length === 0) {
+        throw new Error('The selected shapes have no text.');
+      }
+
+      const screenshots = settings.sendScreenshots
+        ? await captureVisualContext(editor, [{
+          refs: sources.map(source => source.ref),
+          shapeIds: getSelectionShapeIds(editor, selectedIds)
+        }], { ...settings.visualBudget, maxImages: 1 }, abortController.signal)
+        : [];
+      updateLastMessage({ screenshots });
+      abortController.signal.throwIfAborted();
+
+      const aiResponse = await generateChatResponse(
+        [{ role: 'user', content: action.prompt }],
+        sources,
+        screenshots,
+        (content) => updateLastMessage({ content }),
+        abortController.signal,
+        { canvasActions: false }
+      );
+
+      updateLastMessage({
+        content: aiResponse.content || 'No response generated',
+        citations: aiResponse.citations,
+        isLoading: false
+      });
+      const noteText = stripCitations(aiResponse.content);
+      if (noteText) {
+        addLinkedNote(editor, noteText, action.noteColor, selectedIds);
+      }
+    } catch (error: any) {
+      if (abortController.signal.aborted) {
+        updateLastMessage({ isLoading: false, stopped: true });
+      } else {
+        console.error(`Error during ${action.id}:`, error);
+        updateLastMessage({ isLoading: false, ...getMessageError(error) });
+      }
+    } finally {
+      if (chatAbortRef.current === abortController) {
+        chatAbortRef.current = null;
+      }
+      setIsLoading(false);
+    }
+  };
+  // The canvas menu is created once; it calls the latest handler through this ref
+  selectionActionRef.current = handleSelectionAction;
+
+  const handleStartDictation = async (target: DictationTarget) => {
+    if (dictation) return;
+    setDictationError(null);
+    try {
+      recordingRef.current = await startRecording();
+      setDictation({ target, state: 'recording' });
+    } catch (error: any) {
+      console.error('Failed to start recording:', error);
+      setDictationError(`Microphone unavailable: ${error?.message || error}`);
+    }
+  };
+
+  // Transcribe the recording on this device and put the text where it was meant to go
+  const handleStopDictation = async () => {
+    const recording = recordingRef.current;
+    if (!recording || dictation?.state !== 'recording') return;
+    const { target } = dictation;
+    recordingRef.current = null;
+    setDictation({ target, state: 'transcribing' });
+    try {
+      const text = await getSpeechRecognizer().transcribe(await recording.stop());
+      console.log('Transcribed dictation:', text);
+      if (!text) {
+        setDictationError('No speech was recognized.');
+      } else if (target.type === 'chat') {
+        setChatInput(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+      } else if (editor) {
+        // The new note is indexed like any other shape
+        addNoteAt(editor, text, 'yellow', target.pageId, target.point);
+      }
+    } catch (error: any) {
+      console.error('Failed to transcribe dictation:', error);
+      setDictationError(`Transcription failed: ${error?.message || error}`);
+    } finally {
+      setDictation(null);
     }
   };
 
-  // Update the handleChat function
-  const handleChat = async () => {
-    if (!chatInput.trim() || !editor || !embeddingIndexRef.current) return;
+  // The note goes where the cursor last was on the board, or was right-clicked
+  const handleDictateNote = () => {
+    if (!editor) return;
+    const { x, y } = editor.inputs.currentPagePoint;
+    handleStartDictation({ type: 'note', pageId: editor.getCurrentPageId(), point: { x, y } });
+  };
+  dictateNoteRef.current = handleDictateNote;
+
+  // Turn the microphone off when the board closes mid-recording
+  useEffect(() => () => recordingRef.current?.cancel(), []);
+
+  // Answer a question from the input, or ask a failed question again after the
+  // messages that came before it
+  const handleChat = async (retry?: { text: string; earlier: ChatMessage[] }) => {
+    const userInputText = retry ? retry.text : chatInput;
+    if (!userInputText.trim() || !editor || !embeddingIndexRef.current) return;
     
-    const userInputText = chatInput;
-    setChatInput(''); // Clear input immediately
+    if (!retry) setChatInput(''); // Clear input immediately
+
+    const history = (retry ? retry.earlier : messages).filter(msg => msg.content);
+    const abortController = new AbortController();
+    chatAbortRef.current = abortController;
     
-    // Add user message with loading state
+    // Add user message and an empty assistant message that fills in as tokens arrive
     setMessages(prev => [...prev, {
       role: 'user',
-      content: userInputText,
+      content: userInputText
+    }, {
+      role: 'assistant',
+      content: '',
       isLoading: true
     }]);
     
@@ -454,137 +1699,349 @@ export default function Home() {
 
     try {
       // First, perform the search
-      const queryEmbedding = await getEmbeddingWithRetry(userInputText);
-      const searchResults = await embeddingIndexRef.current.search(queryEmbedding, {
-        topK: 100,
-        useStorage: 'indexedDB'
+      const searchResults = await searchIndex(userInputText, {
+        topK: settings.chatTopK,
+        pageId: chatScope === 'current-page' ? editor.getCurrentPageId() : undefined,
+        signal: abortController.signal
+      });
+      // Stopped while searching: leave the view where it is
+      abortController.signal.throwIfAborted();
+
+      // Collect the live text of each hit, tagged with a ref the answer can cite,
+      // and fit the best of them into the model's context budget
+      const refs = getSourceRefs(searchResults.map(result => result.item.id));
+      const candidates: ContextCandidate[] = searchResults.map((result, i) => {
+        const bounds = getEntryBounds(editor, result.item);
+        return {
+          ref: refs[i],
+          text: getEntryShapes(editor, result.item)
+            .map(shape => getShapeText(editor, shape))
+            .filter(Boolean)
+            .join(' '),
+          shapeIds: result.item.memberIds,
+          pageId: result.item.pageId,
+          pageName: editor.getPage(result.item.pageId as TLPageId)?.name,
+          bounds: bounds && { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h },
+          similarity: result.similarity,
+          keywordScore: result.keywordScore
+        };
+      });
+      const { sources, summary: context } = buildChatContext(candidates, { model: chatModel, minSimilarity });
+      updateLastMessage({
+        retrievedShapeIds: Array.from(new Set(sources.flatMap(source => source.shapeIds))),
+        context
       });
 
-      // Collect detailed search context
-      const searchContext = searchResults
-        .map(result => {
-          const shape = editor.getShape(result.object.shapeId);
-          const text = shape && 'text' in shape.props ? shape.props.text : '';
-          return `
-${text}`;
-        })
-        .join('\n\n');
-
-      console.log('Search context:', searchContext);
+      console.log('Search context:', context);
 
-      // Find relevant shapes and capture screenshot
+      // Find the shapes of the sources that were sent, to show them on the board
+      const sentRefs = new Set(sources.map(source => source.ref));
       const relevantShapes = searchResults
+        .filter((_, i) => sentRefs.has(refs[i]))
         .map(result => {
-          const shape = editor.getShape(result.object.shapeId);
+          const item = result.item;
+          const shape = getEntryShapes(editor, item)[0];
           if (!shape) return null;
-          const bounds = editor.getShapePageBounds(shape);
+          const bounds = getEntryBounds(editor, item);
           if (!bounds) return null;
           return {
             shape,
+            pageId: editor.getAncestorPageId(shape),
             position: bounds.center,
             similarity: result.similarity
           };
         })
         .filter(Boolean);
 
-      // Capture screenshot if there are relevant shapes
-      let screenshot: string | null = null;
-      if (relevantShapes.length > 0) {
-        screenshot = await captureAreaAroundShapes(relevantShapes);
-        setCurrentScreenshot(screenshot);
+      // Hits can span pages; show the page holding most of them
+      const pageCounts = new Map<TLPageId, number>();
+      relevantShapes.forEach(item => {
+        if (item?.pageId) pageCounts.set(item.pageId, (pageCounts.get(item.pageId) || 0) + 1);
+      });
+      const visualPageId = Array.from(pageCounts.entries())
+        .sort((a, b) => b[1] - a[1])[0]?.[0];
+      if (visualPageId && visualPageId !== editor.getCurrentPageId()) {
+        editor.setCurrentPage(visualPageId);
+      }
+      const pageShapes = relevantShapes.filter(
+        (item): item is NonNullable<typeof item> => item?.pageId === visualPageId
+      );
+
+      if (pageShapes.length > 0) {
 
         // Center view on the median position
-        const medianX = relevantShapes.sort((a, b) => a.position.x - b.position.x)[
-          Math.floor(relevantShapes.length / 2)
+        const medianX = pageShapes.sort((a, b) => a.position.x - b.position.x)[
+          Math.floor(pageShapes.length / 2)
         ].position.x;
-        const medianY = relevantShapes.sort((a, b) => a.position.y - b.position.y)[
-          Math.floor(relevantShapes.length / 2)
+        const medianY = pageShapes.sort((a, b) => a.position.y - b.position.y)[
+          Math.floor(pageShapes.length / 2)
         ].position.y;
 
         editor.centerOnPoint(new Vec(medianX, medianY));
-      } else {
-        setCurrentScreenshot(null);
       }
 
-      // Get AI response with search context and screenshot
+      // One capture per turn: regions around the sources that were sent, kept on
+      // the answer so the sidebar shows exactly what the model saw
+      const screenshots = settings.sendScreenshots
+        ? await captureVisualContext(
+          editor,
+          sources.map(source => ({ refs: [source.ref], shapeIds: source.shapeIds })),
+          settings.visualBudget,
+          abortController.signal
+        )
+        : [];
+      updateLastMessage({ screenshots });
+      abortController.signal.throwIfAborted();
+
+      // Stream AI response with search context and screenshot
       const aiResponse = await generateChatResponse(
-        [...messages, {
+        [...history, {
           role: 'user',
-          content: userInputText,
-          isLoading: true
+          content: userInputText
         }],
-        searchContext,
-        await captureAreaAroundShapes(relevantShapes)
+        sources,
+        screenshots,
+        (content) => updateLastMessage({ content }),
+        abortController.signal
       );
 
-      // Update user message to remove loading state
-      setMessages(prev => prev.map((msg, idx) => 
-        idx === prev.length - 1 ? { ...msg, isLoading: false } : msg
-      ));
-
-      // Add assistant message
-      setMessages(prev => [...prev, {
-        role: 'assistant',
-        content: aiResponse
-      }]);
+      // Proposed canvas changes wait for the user to confirm them
+      const toolCalls = validateCanvasToolCalls(editor, aiResponse.toolCalls);
+      updateLastMessage({
+        content: aiResponse.content || (toolCalls.length > 0 ? '' : 'No response generated'),
+        citations: aiResponse.citations,
+        canvasActions: toolCalls.length > 0 ? { calls: toolCalls, status: 'pending' } : undefined,
+        isLoading: false
+      });
 
-    } catch (error) {
-      console.error('Error during chat:', error);
-      // Update user message to remove loading state and add error message
-      setMessages(prev => [
-        ...prev.slice(0, -1),
-        { ...prev[prev.length - 1], isLoading: false },
-        {
-          role: 'assistant',
-          content: 'Sorry, there was an error processing your message.'
-        }
-      ]);
+    } catch (error: any) {
+      if (abortController.signal.aborted) {
+        updateLastMessage({ isLoading: false, stopped: true });
+      } else {
+        console.error('Error during chat:', error);
+        // Keep whatever was streamed before the failure
+        updateLastMessage({ isLoading: false, ...getMessageError(error) });
+      }
     } finally {
+      if (chatAbortRef.current === abortController) {
+        chatAbortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  // Drop the failed answer and its question, then run the turn again
+  const handleRetry = (index: number) => {
+    const question = messages[index - 1];
+    if (isLoading || question?.role !== 'user') return;
+    const earlier = messages.slice(0, index - 1);
+    setMessages(earlier);
+    if (question.selectionAction) {
+      handleSelectionAction(question.selectionAction, question.selectionShapeIds);
+    } else {
+      handleChat({ text: question.content, earlier });
+    }
+  };
+
   return (
     <div style={styles.container}>
+      {showSettings && (
+        <SettingsPane
+          settings={settingsScope === 'global' ? globalSettings : settings}
+          scope={settingsScope}
+          onScopeChange={setSettingsScope}
+          onChange={handleSettingsChange}
+          onResetBoard={Object.keys(boardSettings).length > 0 ? handleResetBoardSettings : null}
+          chatMode={chatMode}
+          serverChatInfo={serverChatInfo}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
       <div style={styles.mainContent}>
         <div style={styles.searchContainer}>
+          {boardSwitcher}
           <input
             type="text"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder="Search within whiteboard..."
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveResultIndex(-1);
+            }}
+            onKeyDown={handleSearchKeyDown}
+            placeholder='Search within whiteboard... use "quotes" for exact phrases'
             style={styles.input}
           />
+          <label style={styles.searchModeToggle} title="Match words by prefix only, without semantic search">
+            <input
+              type="checkbox"
+              checked={searchMode === 'prefix'}
+              onChange={(e) => setSearchMode(e.target.checked ? 'prefix' : 'hybrid')}
+            />
+            Prefix
+          </label>
           <button type="submit" style={styles.button} onClick={handleSearch}>Search</button>
-          {/* <button 
+          <button
+            type="button"
+            style={{
+              ...styles.settingsButton,
+              backgroundColor: showClusters ? '#0066cc' : '#666666'
+            }}
+            onClick={() => setShowClusters(show => !show)}
+            title="Show how shapes are grouped for search"
+          >
+            Clusters
+          </button>
+          <button
             type="button"
-            onClick={handleDeleteIndex} 
-            style={styles.deleteButton}
+            style={{
+              ...styles.settingsButton,
+              backgroundColor: showSettings ? '#0066cc' : '#666666'
+            }}
+            onClick={() => setShowSettings(show => !show)}
+            title="Search, chat and screenshot settings"
           >
-            Clear Index
-          </button> */}
+            Settings
+          </button>
+          <div style={styles.selectionActions} title="Ask about the selected shapes">
+            {SELECTION_ACTIONS.map(action => (
+              <button
+                key={action.id}
+                type="button"
+                style={styles.boardButton}
+                onClick={() => handleSelectionAction(action.id)}
+                disabled={!hasSelection || isLoading}
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            style={dictation?.target.type === 'note' && dictation.state === 'recording' ? styles.stopButton : styles.boardButton}
+            onClick={dictation?.target.type === 'note' ? handleStopDictation : handleDictateNote}
+            disabled={Boolean(dictation && (dictation.target.type !== 'note' || dictation.state === 'transcribing'))}
+            title="Speak a sticky note, placed where the cursor was on the board. Audio stays on this device."
+          >
+            {dictation?.target.type !== 'note'
+              ? 'Dictate note'
+              : dictation.state === 'recording' ? 'Stop dictation' : 'Transcribing...'}
+          </button>
+          {dictationError && (
+            <div style={{ ...styles.embeddingStatus, color: '#cc0000' }}>
+              {dictationError}
+              <button type="button" style={styles.boardButton} onClick={() => setDictationError(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+          {embeddingStatus.state !== 'idle' && (
+            <div
+              style={{
+                ...styles.embeddingStatus,
+                color: embeddingStatus.state === 'error' ? '#cc0000' : '#666666'
+              }}
+              title={embeddingStatus.state === 'error' ? embeddingStatus.error : undefined}
+            >
+              {formatEmbeddingStatus(embeddingStatus)}
+              {embeddingStatus.state === 'error' && (
+                <button type="button" style={styles.boardButton} onClick={handleRetryEmbedding}>
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+          <select
+            value={preferredModel.id}
+            onChange={(e) => {
+              const model = EMBEDDING_MODELS.find(option => option.id === e.target.value);
+              if (!model) return;
+              savePreferredEmbeddingModel(model);
+              setPreferredModel(model);
+            }}
+            style={styles.modelSelect}
+            title="Embedding model for search"
+          >
+            {EMBEDDING_MODELS.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
         </div>
+        {indexedThreshold !== null && indexedThreshold !== settings.clusterThreshold && (
+          <div style={styles.indexBanner}>
+            The clustering distance changed. Search uses the old groups until the board is re-indexed.
+            <button type="button" style={styles.boardButton} onClick={handleReindex}>
+              Re-index now
+            </button>
+          </div>
+        )}
+        {reconcileReport && (
+          <div style={styles.indexBanner}>
+            {formatReconcileReport(reconcileReport)}
+            <button type="button" style={styles.boardButton} onClick={() => setReconcileReport(null)}>
+              Dismiss
+            </button>
+          </div>
+        )}
+        {isRebuilding && indexModel && (
+          <div style={styles.indexBanner}>
+            Rebuilding the search index with {indexModel.label}
+            {embeddingStatus.state === 'embedding' && ` (${embeddingStatus.done}/${embeddingStatus.total})`}.
+            Search results are incomplete until it finishes; it continues after a reload.
+          </div>
+        )}
+        {!isRebuilding && indexModel && indexModel.id !== preferredModel.id && (
+          <div style={styles.indexBanner}>
+            This board&apos;s search index was built with {indexModel.label}. Rebuild it with {preferredModel.label}?
+            <button type="button" style={styles.boardButton} onClick={() => handleRebuildIndex(preferredModel)}>
+              Rebuild
+            </button>
+            <button type="button" style={styles.boardButton} onClick={handleKeepIndexModel}>
+              Keep {indexModel.label}
+            </button>
+          </div>
+        )}
         {results.length > 0 && (
           <div style={styles.resultsContainer}>
-            <h3 style={styles.resultsTitle}>Results:</h3>
-            <ul style={styles.resultsList}>
-              {results.map((item) => (
-                <li 
-                  key={item.id} 
-                  style={styles.resultItem}
-                  onClick={() => handleResultClick(item)}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = '#f0f0f0';
-                    e.currentTarget.style.cursor = 'pointer';
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = '#ffffff';
+            <div style={styles.resultsHeader}>
+              <h3 style={styles.resultsTitle}>
+                Results: {visibleResults.length}
+                {visibleResults.length < results.length && (
+                  <span style={styles.resultsHidden}> ({results.length - visibleResults.length} below cutoff)</span>
+                )}
+              </h3>
+              <label style={styles.resultsCutoff}>
+                Min. similarity
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={minSimilarity}
+                  onChange={(e) => {
+                    setMinSimilarity(Number(e.target.value));
+                    setActiveResultIndex(-1);
                   }}
-                >
-                  {item.name}
-                </li>
-              ))}
-            </ul>
+                />
+                {Math.round(minSimilarity * 100)}%
+              </label>
+            </div>
+            {resultGroups.map((group) => (
+              <div key={group.pageId}>
+                <h4 style={styles.resultsPageTitle}>{group.pageName}</h4>
+                <ul style={styles.resultsList} role="listbox">
+                  {group.hits.map((hit) => (
+                    <SearchResultItem
+                      key={hit.item.id}
+                      hit={hit}
+                      terms={highlightTerms}
+                      isActive={visibleResults[activeResultIndex]?.item.id === hit.item.id}
+                      onSelect={() => handleResultClick(hit.item)}
+                      onHoverChange={(hovered) => handleResultHover(hit, hovered)}
+                    />
+                  ))}
+                </ul>
+              </div>
+            ))}
           </div>
         )}
         <div style={styles.whiteboard}>
@@ -596,9 +2053,10 @@ ${text}`;
             <Tldraw
               store={store}
               onMount={setEditor}
+              components={tldrawComponents}
               autoFocus
             >
-              <WhiteboardWithSearch onShapesChange={updateVectorIndex} />
+              <WhiteboardWithSearch onShapesChange={scheduleIndexUpdate} />
             </Tldraw>
           )}
         </div>
@@ -607,7 +2065,116 @@ ${text}`;
       <div style={styles.chatSidebar}>
         <div style={styles.chatHeader}>
           <h3 style={styles.chatTitle}>Chat</h3>
+          <select
+            value={chatScope}
+            onChange={(e) => setChatScope(e.target.value as ChatScope)}
+            style={styles.chatScopeSelect}
+            title="Which pages chat takes its context from"
+          >
+            <option value="all-pages">All pages</option>
+            <option value="current-page">This page</option>
+          </select>
+        </div>
+        <div style={styles.threadBar}>
+          <select
+            value={currentThreadId || ''}
+            onChange={(e) => handleSelectThread(e.target.value)}
+            style={styles.threadSelect}
+            disabled={isLoading}
+            title="Conversations on this board"
+          >
+            {!currentThreadId && <option value="">New conversation</option>}
+            {threads.map(thread => (
+              <option key={thread.id} value={thread.id}>{thread.title}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => openThread(null)}
+            style={styles.threadButton}
+            disabled={isLoading || !currentThreadId}
+            title="Start a new conversation"
+          >
+            New
+          </button>
+          <button
+            type="button"
+            onClick={handleRenameThread}
+            style={styles.threadButton}
+            disabled={isLoading || !currentThreadId}
+            title="Rename this conversation"
+          >
+            Rename
+          </button>
+          <button
+            type="button"
+            onClick={handleDeleteThread}
+            style={styles.threadButton}
+            disabled={isLoading || !currentThreadId}
+            title="Delete this conversation"
+          >
+            Delete
+          </button>
         </div>
+        {chatMode === 'browser' && (
+          <details style={styles.chatConnection}>
+            <summary style={styles.contextSummary}>
+              Chat connection: {browserChatSettings.apiKey ? browserChatSettings.model || 'no model' : 'not set up'}
+            </summary>
+            <div style={styles.settingHelp}>
+              No chat server here, so the browser calls an OpenAI-compatible API directly.
+              The key is stored in this browser only.
+            </div>
+            <label style={styles.settingLabel}>
+              Endpoint
+              <input
+                type="url"
+                value={browserChatSettings.baseUrl}
+                onChange={(e) => handleBrowserChatSettingsChange({ baseUrl: e.target.value })}
+                onBlur={(e) => handleBrowserChatSettingsChange({ baseUrl: e.target.value.trim() })}
+                placeholder="https://openrouter.ai/api/v1"
+                style={styles.settingInput}
+              />
+            </label>
+            <label style={styles.settingLabel}>
+              API key
+              <input
+                type="password"
+                value={browserChatSettings.apiKey}
+                onChange={(e) => handleBrowserChatSettingsChange({ apiKey: e.target.value })}
+                onBlur={(e) => handleBrowserChatSettingsChange({ apiKey: e.target.value.trim() })}
+                autoComplete="off"
+                style={styles.settingInput}
+              />
+            </label>
+            <label style={styles.settingLabel}>
+              Model
+              <input
+                type="text"
+                value={browserChatSettings.model}
+                onChange={(e) => handleBrowserChatSettingsChange({ model: e.target.value })}
+                onBlur={(e) => handleBrowserChatSettingsChange({ model: e.target.value.trim() })}
+                style={styles.settingInput}
+              />
+            </label>
+            <label style={styles.searchModeToggle}>
+              <input
+                type="checkbox"
+                checked={browserChatSettings.supportsImages}
+                onChange={(e) => handleBrowserChatSettingsChange({ supportsImages: e.target.checked })}
+              />
+              Model reads images
+            </label>
+            <label style={styles.searchModeToggle}>
+              <input
+                type="checkbox"
+                checked={browserChatSettings.supportsTools}
+                onChange={(e) => handleBrowserChatSettingsChange({ supportsTools: e.target.checked })}
+              />
+              Allow board changes
+            </label>
+          </details>
+        )}
         <div style={styles.messagesContainer}>
           {messages.map((message, index) => (
             <div 
@@ -618,20 +2185,103 @@ ${text}`;
                 {message.content}
                 {message.isLoading && <LoadingSpinner />}
               </div>
+              {message.context && <ContextDetails context={message.context} />}
+              {message.citations && message.citations.length > 0 && (
+                <div style={styles.citations}>
+                  {message.citations.map(citation => (
+                    <CitationChip
+                      key={citation.ref}
+                      citation={citation}
+                      editor={editor}
+                      onFocus={focusCitation}
+                    />
+                  ))}
+                </div>
+              )}
+              {message.canvasActions && (
+                <div style={styles.canvasActions}>
+                  <ul style={styles.canvasActionList}>
+                    {message.canvasActions.calls.map(call => (
+                      <li
+                        key={call.id}
+                        style={call.action ? styles.canvasAction : { ...styles.canvasAction, ...styles.canvasActionRejected }}
+                        onMouseEnter={() => previewCanvasAction(call)}
+                        onMouseLeave={() => previewCanvasAction(null)}
+                      >
+                        {call.action ? describeCanvasAction(call.action) : `Rejected ${call.name}: ${call.error}`}
+                      </li>
+                    ))}
+                  </ul>
+                  {message.canvasActions.status === 'pending' ? (
+                    <div style={styles.canvasActionButtons}>
+                      <button
+                        type="button"
+                        style={styles.canvasApplyButton}
+                        onClick={() => handleApplyCanvasActions(index)}
+                        disabled={!message.canvasActions.calls.some(call => call.action)}
+                      >
+                        Apply
+                      </button>
+                      <button
+                        type="button"
+                        style={styles.threadButton}
+                        onClick={() => handleDismissCanvasActions(index)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  ) : (
+                    <div style={styles.messageNote}>
+                      {message.canvasActions.status === 'applied' ? 'Applied, undo with Ctrl+Z' : 'Dismissed'}
+                    </div>
+                  )}
+                </div>
+              )}
+              {message.stopped && (
+                <div style={styles.messageNote}>Stopped</div>
+              )}
+              {message.error && (
+                <div style={styles.messageError}>
+                  {message.content ? 'Response interrupted: ' : message.errorCode ? '' : 'Sorry, there was an error processing your message: '}
+                  {message.errorCode ? `${CHAT_ERROR_HELP[message.errorCode].title}: ` : ''}
+                  {message.error}
+                  {message.errorCode && (
+                    <div style={styles.messageErrorHint}>
+                      {CHAT_ERROR_HELP[message.errorCode].hint}
+                      {message.retryAfter ? ` The provider asked to wait ${message.retryAfter} s.` : ''}
+                    </div>
+                  )}
+                  {index === messages.length - 1 && (!message.errorCode || CHAT_ERROR_HELP[message.errorCode].retryable) && (
+                    <button
+                      type="button"
+                      style={styles.threadButton}
+                      onClick={() => handleRetry(index)}
+                      disabled={isLoading}
+                    >
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
+              {getMessageImages(message).map((image, imageIndex) => (
+                <div key={imageIndex} style={styles.screenshotContainer}>
+                  <img
+                    src={image.src}
+                    alt="Context sent with this question"
+                    style={styles.screenshot}
+                    onClick={() => {
+                      window.open(image.src, '_blank');
+                    }}
+                  />
+                  {image.refs.length > 0 && (
+                    <div style={styles.screenshotCaption}>
+                      {image.refs.map(ref => `#${ref}`).join(' ')}
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
           ))}
-          {currentScreenshot && (
-            <div style={styles.screenshotContainer}>
-              <img 
-                src={currentScreenshot} 
-                alt="Current context"
-                style={styles.screenshot}
-                onClick={() => {
-                  window.open(currentScreenshot, '_blank');
-                }}
-              />
-            </div>
-          )}
         </div>
         <form 
           style={styles.chatInputContainer}
@@ -650,23 +2300,178 @@ ${text}`;
             style={styles.chatInput}
             disabled={isLoading}
           />
-          <button 
-            type="submit" 
-            style={{
-              ...styles.chatButton,
-              opacity: isLoading ? 0.7 : 1,
-              cursor: isLoading ? 'not-allowed' : 'pointer'
-            }}
-            disabled={isLoading}
+          <button
+            type="button"
+            style={dictation?.target.type === 'chat' && dictation.state === 'recording' ? styles.stopButton : styles.micButton}
+            onClick={dictation?.target.type === 'chat' ? handleStopDictation : () => handleStartDictation({ type: 'chat' })}
+            disabled={Boolean(dictation && (dictation.target.type !== 'chat' || dictation.state === 'transcribing'))}
+            title="Speak your question; it is transcribed on this device"
           >
-            Send
+            {dictation?.target.type !== 'chat' ? 'Mic' : dictation.state === 'recording' ? 'Done' : '...'}
           </button>
+          {isLoading ? (
+            <button
+              type="button"
+              style={styles.stopButton}
+              onClick={handleStopChat}
+            >
+              Stop
+            </button>
+          ) : (
+            <button 
+              type="submit" 
+              style={styles.chatButton}
+            >
+              Send
+            </button>
+          )}
         </form>
       </div>
     </div>
   );
+};
+
+export default function Home() {
+  const [boards, setBoards] = useState<BoardMeta[]>([]);
+  const [boardId, setBoardId] = useState<string | null>(null);
+  // Board whose storage is removed once its view has closed
+  const deletedBoardIdRef = useRef<string | null>(null);
+
+  // Pick the board from the URL, falling back to the first one
+  useEffect(() => {
+    const loaded = loadBoards();
+    setBoards(loaded);
+    const requested = getBoardIdFromUrl();
+    const initial = loaded.find(board => board.id === requested)?.id ?? loaded[0].id;
+    setBoardId(initial);
+    setBoardIdInUrl(initial, { replace: true });
+
+    const handlePopState = () => {
+      const id = getBoardIdFromUrl();
+      if (id && loadBoards().some(board => board.id === id)) {
+        setBoardId(id);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  // Runs after the deleted board's view has unmounted, so none of its save effects
+  // or index updates can write its storage again
+  useEffect(() => {
+    const deletedId = deletedBoardIdRef.current;
+    if (!deletedId || deletedId === boardId) return;
+    deletedBoardIdRef.current = null;
+    deleteBoardStorage(deletedId).catch(error => console.error('Failed to delete board storage:', error));
+  }, [boardId]);
+
+  const switchBoard = (id: string) => {
+    setBoardId(id);
+    setBoardIdInUrl(id);
+  };
+
+  const handleCreateBoard = () => {
+    const name = window.prompt('Name of the new board', 'Untitled board')?.trim();
+    if (!name) return;
+    const next = createBoard(name);
+    setBoards(next);
+    switchBoard(next[next.length - 1].id);
+  };
+
+  const handleRenameBoard = () => {
+    const current = boards.find(board => board.id === boardId);
+    if (!current) return;
+    const name = window.prompt('Rename board', current.name)?.trim();
+    if (!name) return;
+    setBoards(renameBoard(current.id, name));
+  };
+
+  const handleDuplicateBoard = async () => {
+    const current = boards.find(board => board.id === boardId);
+    if (!current) return;
+    try {
+      const { boards: next, board } = await duplicateBoard(current.id, `${current.name} (copy)`);
+      setBoards(next);
+      switchBoard(board.id);
+    } catch (error: any) {
+      console.error('Failed to duplicate board:', error);
+      window.alert(`Duplicate failed: ${error?.message || error}`);
+    }
+  };
+
+  const handleDeleteBoard = () => {
+    const current = boards.find(board => board.id === boardId);
+    if (!current || boards.length <= 1) return;
+    if (!window.confirm(`Delete "${current.name}"? Its canvas, search index and chat are removed.`)) return;
+    try {
+      const next = removeBoard(current.id);
+      deletedBoardIdRef.current = current.id;
+      setBoards(next);
+      switchBoard(next[0].id);
+    } catch (error: any) {
+      console.error('Failed to delete board:', error);
+      window.alert(`Delete failed: ${error?.message || error}`);
+    }
+  };
+
+  const handleExportBoard = async () => {
+    const current = boards.find(board => board.id === boardId);
+    if (!current) return;
+    try {
+      const bundle = await exportBoardBundle(current);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBundleFileName(bundle);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to export board:', error);
+      window.alert(`Export failed: ${error?.message || error}`);
+    }
+  };
+
+  const handleImportBoard = async (file: File) => {
+    try {
+      const bundle = await readBoardBundleFile(file);
+      const { boards: next, board, reusedEmbeddings } = await importBoardBundle(bundle);
+      setBoards(next);
+      switchBoard(board.id);
+      if (!reusedEmbeddings) {
+        window.alert(`"${board.name}" was indexed with ${bundle.index.model.id}; its search index is rebuilt with the current model.`);
+      }
+    } catch (error: any) {
+      console.error('Failed to import board:', error);
+      window.alert(`Import failed: ${error?.message || error}`);
+    }
+  };
+
+  if (!boardId) return null;
+
+  return (
+    <BoardView
+      key={boardId}
+      boardId={boardId}
+      boardSwitcher={
+        <BoardSwitcher
+          boards={boards}
+          boardId={boardId}
+          onSwitch={switchBoard}
+          onCreate={handleCreateBoard}
+          onRename={handleRenameBoard}
+          onDuplicate={handleDuplicateBoard}
+          onDelete={handleDeleteBoard}
+          onExport={handleExportBoard}
+          onImport={handleImportBoard}
+        />
+      }
+    />
+  );
 }
 
+
 const styles: { [key: string]: React.CSSProperties } = {
   container: {
     height: '100vh',
@@ -693,6 +2498,53 @@ const styles: { [key: string]: React.CSSProperties } = {
   chatHeader: {
     padding: '15px',
     borderBottom: '1px solid #ddd',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  chatScopeSelect: {
+    padding: '4px 8px',
+    fontSize: '12px',
+    borderRadius: '4px',
+    border: '1px solid #ddd',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+  },
+  threadBar: {
+    padding: '8px 10px',
+    borderBottom: '1px solid #ddd',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  chatConnection: {
+    padding: '8px 10px',
+    borderBottom: '1px solid #ddd',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    fontSize: '12px',
+    color: '#555555',
+  },
+  threadSelect: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    fontSize: '12px',
+    borderRadius: '4px',
+    border: '1px solid #ddd',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+  },
+  threadButton: {
+    padding: '4px 6px',
+    fontSize: '12px',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    cursor: 'pointer',
   },
   chatTitle: {
     margin: 0,
@@ -733,6 +2585,110 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '14px',
     lineHeight: '1.4',
   },
+  contextDetails: {
+    marginTop: '6px',
+    fontSize: '12px',
+    color: '#555555',
+  },
+  contextSummary: {
+    cursor: 'pointer',
+  },
+  contextList: {
+    margin: '4px 0 0',
+    paddingLeft: '16px',
+    maxHeight: '200px',
+    overflowY: 'auto',
+  },
+  contextItem: {
+    marginBottom: '4px',
+    wordBreak: 'break-word',
+  },
+  contextItemExcluded: {
+    color: '#999999',
+  },
+  contextMeta: {
+    color: '#888888',
+  },
+  citations: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+    marginBottom: '8px',
+  },
+  citationChip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    maxWidth: '100%',
+    padding: '2px 8px',
+    fontSize: '12px',
+    color: '#0066cc',
+    backgroundColor: '#eef5ff',
+    border: '1px solid #cce0ff',
+    borderRadius: '12px',
+    cursor: 'pointer',
+    overflow: 'hidden',
+    whiteSpace: 'nowrap',
+    textOverflow: 'ellipsis',
+  },
+  citationChipMissing: {
+    color: '#999999',
+    backgroundColor: '#f5f5f5',
+    border: '1px dashed #cccccc',
+    cursor: 'not-allowed',
+    textDecoration: 'line-through',
+  },
+  citationRef: {
+    fontWeight: 600,
+  },
+  canvasActions: {
+    marginBottom: '8px',
+    padding: '6px 8px',
+    backgroundColor: '#f7f7f7',
+    border: '1px solid #e0e0e0',
+    borderRadius: '6px',
+  },
+  canvasActionList: {
+    listStyle: 'none',
+    margin: '0 0 6px 0',
+    padding: 0,
+  },
+  canvasAction: {
+    fontSize: '12px',
+    padding: '2px 0',
+    color: '#333333',
+    cursor: 'default',
+  },
+  canvasActionRejected: {
+    color: '#ff4d4d',
+  },
+  canvasActionButtons: {
+    display: 'flex',
+    gap: '4px',
+  },
+  canvasApplyButton: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    backgroundColor: '#0066cc',
+    color: '#ffffff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  messageNote: {
+    fontSize: '12px',
+    color: '#666666',
+    fontStyle: 'italic',
+  },
+  messageError: {
+    fontSize: '12px',
+    color: '#ff4d4d',
+    wordBreak: 'break-word',
+  },
+  messageErrorHint: {
+    margin: '2px 0 4px 0',
+    color: '#666666',
+  },
   screenshotContainer: {
     position: 'relative',
     width: '100%',
@@ -740,6 +2696,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     overflow: 'hidden',
     cursor: 'pointer',
   },
+  screenshotCaption: {
+    padding: '2px 4px',
+    fontSize: '11px',
+    color: '#666666',
+  },
   screenshot: {
     width: '100%',
     height: 'auto',
@@ -780,6 +2741,26 @@ const styles: { [key: string]: React.CSSProperties } = {
       backgroundColor: '#0052a3',
     },
   },
+  micButton: {
+    padding: '8px 12px',
+    fontSize: '14px',
+    cursor: 'pointer',
+    backgroundColor: '#666666',
+    color: 'white',
+    border: 'none',
+    borderRadius: '20px',
+    fontWeight: '500',
+  },
+  stopButton: {
+    padding: '8px 16px',
+    fontSize: '14px',
+    cursor: 'pointer',
+    backgroundColor: '#ff4d4d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '20px',
+    fontWeight: '500',
+  },
   searchContainer: {
     display: 'flex',
     alignItems: 'center',
@@ -801,24 +2782,76 @@ const styles: { [key: string]: React.CSSProperties } = {
       color: '#666666',
     },
   },
-  button: {
-    padding: '8px 16px',
+  boardSwitcher: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  boardSelect: {
+    padding: '8px',
     fontSize: '14px',
+    borderRadius: '4px',
+    border: '1px solid #ddd',
+    backgroundColor: '#ffffff',
+    color: '#000000',
+    maxWidth: '180px',
+  },
+  boardButton: {
+    padding: '8px 10px',
+    fontSize: '12px',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
     cursor: 'pointer',
-    backgroundColor: '#0066cc',
-    color: 'white',
-    border: 'none',
+  },
+  selectionActions: {
+    display: 'flex',
+    gap: '4px',
+  },
+  modelSelect: {
+    maxWidth: '180px',
+    padding: '4px 8px',
+    fontSize: '12px',
     borderRadius: '4px',
-    fontWeight: '500',
+    border: '1px solid #ddd',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+  },
+  indexBanner: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+    padding: '8px 12px',
+    fontSize: '13px',
+    backgroundColor: '#fff8e1',
+    border: '1px solid #f0d68a',
+    borderRadius: '4px',
+  },
+  embeddingStatus: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '13px',
+    whiteSpace: 'nowrap',
   },
-  deleteButton: {
+  searchModeToggle: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    fontSize: '14px',
+    color: '#333333',
+    whiteSpace: 'nowrap',
+  },
+  button: {
     padding: '8px 16px',
     fontSize: '14px',
-    backgroundColor: '#ff4d4d',
-    color: '#fff',
+    cursor: 'pointer',
+    backgroundColor: '#0066cc',
+    color: 'white',
     border: 'none',
     borderRadius: '4px',
-    cursor: 'pointer',
     fontWeight: '500',
   },
   resultsContainer: {
@@ -851,12 +2884,65 @@ const styles: { [key: string]: React.CSSProperties } = {
       backgroundColor: '#f8f8f8',
     },
   },
+  resultMeta: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  resultType: {
+    fontSize: '11px',
+    color: '#666666',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  resultScore: {
+    fontSize: '11px',
+    color: '#0066cc',
+    whiteSpace: 'nowrap',
+  },
+  resultHighlight: {
+    backgroundColor: '#fff3a3',
+    color: 'inherit',
+    padding: 0,
+  },
+  resultsHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  resultsHidden: {
+    color: '#666666',
+    fontSize: '12px',
+    fontWeight: 'normal',
+  },
+  resultsCutoff: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '12px',
+    color: '#666666',
+    marginBottom: '10px',
+  },
+  resultsPageTitle: {
+    margin: '8px 0 4px 0',
+    color: '#666666',
+    fontSize: '12px',
+    fontWeight: '500',
+  },
   resultsTitle: {
     margin: '0 0 10px 0',
     color: '#333333',
     fontSize: '16px',
     fontWeight: '500',
   },
+  clusterOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    overflow: 'visible',
+    pointerEvents: 'none',
+  },
   whiteboard: {
     flex: 1,
     borderRadius: '8px',
@@ -0,0 +1,188 @@
+import { createTLStore, loadSnapshot } from '@tldraw/tldraw';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BOARD_BUNDLE_FORMAT,
+  BOARD_BUNDLE_VERSION,
+  BoardBundle,
+  BoardBundleError,
+  exportBoardBundle,
+  importBoardBundle,
+  parseBoardBundle
+} from './boardBundle';
+import { getBoardSnapshotKey, loadBoards } from './boards';
+import { ChatThread, loadThreads, saveThreads } from './chatThreads';
+import { normalizeIndexEntry } from './vectorIndex';
+import { readIndexStore, writeIndexStore } from './vectorStore';
+
+// The IndexedDB stores are replaced; boards and snapshots use a fake localStorage
+vi.mock('./vectorStore', () => ({
+  readIndexStore: vi.fn(),
+  writeIndexStore: vi.fn(async () => {})
+}));
+vi.mock('./chatThreads', () => ({
+  loadThreads: vi.fn(),
+  saveThreads: vi.fn(async () => {})
+}));
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+});
+
+const MODEL = { id: 'Xenova/gte-small', dimensions: 384 };
+const ENTRIES = [
+  normalizeIndexEntry({
+    id: 'cluster-a1b2',
+    name: 'Launch plan',
+    embedding: new Array(384).fill(0.5),
+    memberIds: ['shape:1', 'shape:2'],
+    shapeTypes: ['note'],
+    pageId: 'page:page',
+    bounds: { x: 0, y: 0, w: 200, h: 100 },
+    contentHash: 'a1b2'
+  })
+];
+const THREADS: ChatThread[] = [{
+  id: 'thread-1',
+  title: 'Launch',
+  createdAt: 1,
+  updatedAt: 2,
+  messages: [{ role: 'user', content: 'When is the launch?' }, { role: 'assistant', content: 'In May.' }]
+}];
+const BOARD = { id: 'board-plans', name: 'Plans', createdAt: 1 };
+
+// Loading a snapshot adds the document and first page, as on a real board
+const canvasSnapshot = () => {
+  const store = createTLStore();
+  loadSnapshot(store, store.getStoreSnapshot());
+  return store.getStoreSnapshot();
+};
+
+const storeBoard = () => {
+  storage.set('arkeith-boards', JSON.stringify([BOARD]));
+  storage.set(getBoardSnapshotKey(BOARD.id), JSON.stringify(canvasSnapshot()));
+  vi.mocked(readIndexStore).mockResolvedValue({ meta: { model: MODEL, rebuilding: false }, entries: ENTRIES, embeddings: [] });
+  vi.mocked(loadThreads).mockResolvedValue(THREADS);
+};
+
+// An exported file as read back from disk
+const exportToFile = async () => JSON.parse(JSON.stringify(await exportBoardBundle(BOARD)));
+
+const bundle = (overrides: Partial<BoardBundle> = {}): BoardBundle => ({
+  format: BOARD_BUNDLE_FORMAT,
+  version: BOARD_BUNDLE_VERSION,
+  exportedAt: '2024-05-01T00:00:00.000Z',
+  board: { id: 'board-imported', name: 'Imported' },
+  snapshot: null,
+  index: { model: MODEL, entries: ENTRIES },
+  threads: [],
+  ...overrides
+});
+
+beforeEach(() => {
+  storage.clear();
+  vi.clearAllMocks();
+});
+
+describe('parseBoardBundle', () => {
+  it.each([
+    { name: 'a value that is not an object', data: null, message: 'This is not a board file.' },
+    { name: 'another format', data: { ...bundle(), format: 'tldraw' }, message: 'This is not a board file.' },
+    { name: 'a missing version', data: { ...bundle(), version: undefined }, message: 'The board file has no valid version.' },
+    { name: 'a version that is not a number', data: { ...bundle(), version: '1' }, message: 'The board file has no valid version.' },
+    { name: 'a fractional version', data: { ...bundle(), version: 1.5 }, message: 'The board file has no valid version.' },
+    { name: 'version 0', data: { ...bundle(), version: 0 }, message: 'The board file has no valid version.' },
+    {
+      name: 'a version from a newer app',
+      data: { ...bundle(), version: BOARD_BUNDLE_VERSION + 1 },
+      message: `This board file was written by a newer version (format ${BOARD_BUNDLE_VERSION + 1}). Update the app to import it.`
+    },
+    { name: 'a missing board name', data: { ...bundle(), board: { id: 'x' } }, message: 'The board name is missing.' },
+    { name: 'a malformed snapshot', data: { ...bundle(), snapshot: { store: {} } }, message: 'The canvas snapshot is malformed.' },
+    {
+      name: 'missing model metadata',
+      data: { ...bundle(), index: { entries: ENTRIES } },
+      message: 'The embedding model metadata is missing.'
+    },
+    {
+      name: 'embeddings of the wrong size',
+      data: bundle({ index: { model: { ...MODEL, dimensions: 768 }, entries: ENTRIES } }),
+      message: 'Index entry 1 is malformed.'
+    },
+    {
+      name: 'a malformed message',
+      data: bundle({ threads: [{ ...THREADS[0], messages: [{ role: 'system', content: 'x' }] }] as unknown as ChatThread[] }),
+      message: 'Chat thread 1 is malformed.'
+    }
+  ])('rejects $name', ({ data, message }) => {
+    expect(() => parseBoardBundle(data)).toThrow(new BoardBundleError(message));
+  });
+
+  it('fills in fields missing from older index entries', () => {
+    const parsed = parseBoardBundle({
+      ...bundle(),
+      index: { model: MODEL, entries: [{ id: 'cluster-old', name: 'Old', embedding: ENTRIES[0].embedding }] }
+    });
+    expect(parsed.index.entries).toEqual([normalizeIndexEntry({ id: 'cluster-old', name: 'Old', embedding: ENTRIES[0].embedding })]);
+  });
+});
+
+describe('board bundles', () => {
+  it('imports an exported board with its canvas, index and threads', async () => {
+    storeBoard();
+    const file = await exportToFile();
+    storage.clear();
+
+    const { board, boards, reusedEmbeddings } = await importBoardBundle(parseBoardBundle(file));
+
+    expect(board).toMatchObject({ id: BOARD.id, name: BOARD.name });
+    expect(boards.map(meta => meta.id)).toEqual(['default', BOARD.id]);
+    expect(reusedEmbeddings).toBe(true);
+    expect(JSON.parse(storage.get(getBoardSnapshotKey(BOARD.id))!)).toEqual(file.snapshot);
+    expect(writeIndexStore).toHaveBeenCalledWith(BOARD.id, expect.objectContaining({
+      meta: { model: MODEL, rebuilding: false },
+      entries: ENTRIES
+    }));
+    expect(saveThreads).toHaveBeenCalledWith(BOARD.id, THREADS);
+  });
+
+  it('gives a board a new id and name when both are taken', async () => {
+    storeBoard();
+    const file = await exportToFile();
+
+    const { board } = await importBoardBundle(parseBoardBundle(file));
+
+    expect(board.id).not.toBe(BOARD.id);
+    expect(board.name).toBe('Plans (2)');
+    expect(loadBoards().map(meta => meta.name)).toEqual(['Plans', 'Plans (2)']);
+    expect(storage.has(getBoardSnapshotKey(board.id))).toBe(true);
+    expect(saveThreads).toHaveBeenCalledWith(board.id, THREADS);
+  });
+
+  it('picks the next free name', async () => {
+    storage.set('arkeith-boards', JSON.stringify([
+      { id: 'one', name: 'Imported', createdAt: 0 },
+      { id: 'two', name: 'Imported (2)', createdAt: 0 }
+    ]));
+    const { board } = await importBoardBundle(bundle());
+    expect(board).toMatchObject({ id: 'board-imported', name: 'Imported (3)' });
+  });
+
+  it.each([
+    { name: 'an unknown model', model: { id: 'someone/custom-model', dimensions: 384 } },
+    { name: 'a known model with other dimensions', model: { id: MODEL.id, dimensions: 768 } }
+  ])('drops the embeddings of $name', async ({ model }) => {
+    const entries = [{ ...ENTRIES[0], embedding: new Array(model.dimensions).fill(0.5) }];
+    const { reusedEmbeddings } = await importBoardBundle(bundle({ index: { model, entries } }));
+    expect(reusedEmbeddings).toBe(false);
+    expect(writeIndexStore).not.toHaveBeenCalled();
+  });
+
+  it('rejects a snapshot tldraw cannot load without adding the board', async () => {
+    const snapshot = { store: { 'shape:1': { id: 'shape:1', typeName: 'shape' } }, schema: {} } as unknown as BoardBundle['snapshot'];
+    await expect(importBoardBundle(bundle({ snapshot }))).rejects.toThrow(BoardBundleError);
+    expect(storage.has('arkeith-boards')).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+import { createTLStore, loadSnapshot, TLStoreSnapshot } from '@tldraw/tldraw';
+import {
+  addBoard,
+  BoardMeta,
+  createBoardId,
+  getBoardIndexNamespace,
+  getBoardSnapshotKey,
+  loadBoards
+} from './boards';
+import { parseContextImages } from './chatContext';
+import type { ClusterBounds } from './clustering';
+import { ChatMessage, ChatThread, loadThreads, saveThreads } from './chatThreads';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  EmbeddingModelInfo,
+  getEmbeddingModel,
+  hashString,
+  isSameEmbeddingModel,
+  normalizeIndexEntry,
+  ObjectItem
+} from './vectorIndex';
+import { readIndexStore, writeIndexStore } from './vectorStore';
+
+// Portable board files: the tldraw snapshot, the vector index with the model that
+// produced its embeddings, and the chat threads, in one versioned JSON document.
+//
+// Schema, version 1:
+//   format      'arkeith-board'
+//   version     1
+//   exportedAt  ISO date
+//   board       { id, name }
+//   snapshot    tldraw store snapshot, or null for an empty board
+//   index       { model: { id, dimensions }, entries: ObjectItem[] }
+//   threads     ChatThread[]
+//
+// When the format changes, bump BOARD_BUNDLE_VERSION and add a migration from the
+// previous version to BUNDLE_MIGRATIONS; older files are upgraded on import.
+
+export const BOARD_BUNDLE_FORMAT = 'arkeith-board';
+export const BOARD_BUNDLE_VERSION = 1;
+export const BOARD_BUNDLE_EXTENSION = '.arkeith.json';
+
+export interface BoardBundle {
+  format: typeof BOARD_BUNDLE_FORMAT;
+  version: typeof BOARD_BUNDLE_VERSION;
+  exportedAt: string;
+  board: { id: string; name: string };
+  snapshot: TLStoreSnapshot | null;
+  index: {
+    model: EmbeddingModelInfo;
+    entries: ObjectItem[];
+  };
+  threads: ChatThread[];
+}
+
+export class BoardBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BoardBundleError';
+  }
+}
+
+// Upgrades from version n (the key) to n + 1
+const BUNDLE_MIGRATIONS: Record<number, (bundle: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const exportBoardBundle = async (board: BoardMeta): Promise<BoardBundle> => {
+  const storedSnapshot = localStorage.getItem(getBoardSnapshotKey(board.id));
+  const { meta, entries } = await readIndexStore(getBoardIndexNamespace(board.id));
+  const threads = await loadThreads(board.id);
+  // Indexes without metadata were built with the default model
+  const model = meta?.model || DEFAULT_EMBEDDING_MODEL;
+
+  return {
+    format: BOARD_BUNDLE_FORMAT,
+    version: BOARD_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: { id: board.id, name: board.name },
+    snapshot: storedSnapshot ? JSON.parse(storedSnapshot) : null,
+    index: {
+      model: { id: model.id, dimensions: model.dimensions },
+      entries: entries.map(normalizeIndexEntry)
+    },
+    threads
+  };
+};
+
+export const getBundleFileName = (bundle: BoardBundle) => {
+  const slug = bundle.board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'board'}${BOARD_BUNDLE_EXTENSION}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// The result is checked by parseBoardBundle like a file of the current version
+const migrateBundle = (data: Record<string, unknown>, fromVersion: number): Record<string, unknown> => {
+  let bundle = data;
+  for (let version = fromVersion; version < BOARD_BUNDLE_VERSION; version++) {
+    const migrate = BUNDLE_MIGRATIONS[version];
+    if (!migrate) throw new BoardBundleError(`Board files of version ${version} are no longer supported.`);
+    bundle = { ...migrate(bundle), version: version + 1 };
+  }
+  return bundle;
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isBounds = (value: unknown): value is ClusterBounds =>
+  isObject(value) && ['x', 'y', 'w', 'h'].every(key => typeof value[key] === 'number');
+
+const parseEntries = (value: unknown, dimensions: number): ObjectItem[] => {
+  if (!Array.isArray(value)) throw new BoardBundleError('The index entries are missing.');
+  return value.map((entry: unknown, i) => {
+    // Fields other than id, name and embedding are missing from older entries
+    if (
+      !isObject(entry)
+      || typeof entry.id !== 'string'
+      || typeof entry.name !== 'string'
+      || !isNumberArray(entry.embedding)
+      || entry.embedding.length !== dimensions
+      || (entry.memberIds !== undefined && !isStringArray(entry.memberIds))
+      || (entry.shapeId !== undefined && typeof entry.shapeId !== 'string')
+      || (entry.shapeTypes !== undefined && !isStringArray(entry.shapeTypes))
+      || (entry.pageId !== undefined && typeof entry.pageId !== 'string')
+      || (entry.bounds != null && !isBounds(entry.bounds))
+      || (entry.contentHash !== undefined && typeof entry.contentHash !== 'string')
+    ) {
+      throw new BoardBundleError(`Index entry ${i + 1} is malformed.`);
+    }
+    return normalizeIndexEntry({
+      id: entry.id,
+      name: entry.name,
+      embedding: entry.embedding,
+      shapeId: entry.shapeId,
+      memberIds: entry.memberIds,
+      shapeTypes: entry.shapeTypes,
+      pageId: entry.pageId,
+      bounds: isBounds(entry.bounds) ? entry.bounds : null,
+      contentHash: entry.contentHash
+    });
+  });
+};
+
+// Only the fields the sidebar relies on are checked; the rest are optional extras
+const isStoredMessage = (msg: unknown) =>
+  isObject(msg)
+  && (msg.role === 'user' || msg.role === 'assistant')
+  && typeof msg.content === 'string'
+  && (msg.screenshot == null || typeof msg.screenshot === 'string')
+  && (msg.screenshots === undefined
+    || (Array.isArray(msg.screenshots) && parseContextImages(msg.screenshots).length === msg.screenshots.length))
+  && (msg.retrievedShapeIds === undefined || isStringArray(msg.retrievedShapeIds))
+  && (msg.selectionShapeIds === undefined || isStringArray(msg.selectionShapeIds));
+
+const parseThreads = (value: unknown): ChatThread[] => {
+  if (!Array.isArray(value)) throw new BoardBundleError('The chat threads are missing.');
+  return value.map((thread: unknown, i) => {
+    if (
+      !isObject(thread)
+      || typeof thread.id !== 'string'
+      || typeof thread.title !== 'string'
+      || !Array.isArray(thread.messages)
+      || !thread.messages.every(isStoredMessage)
+    ) {
+      throw new BoardBundleError(`Chat thread ${i + 1} is malformed.`);
+    }
+    return {
+      id: thread.id,
+      title: thread.title,
+      createdAt: Number(thread.createdAt) || 0,
+      updatedAt: Number(thread.updatedAt) || 0,
+      messages: thread.messages as ChatMessage[]
+    };
+  });
+};
+
+// Check a parsed file against the schema, upgrading older versions first
+export const parseBoardBundle = (data: unknown): BoardBundle => {
+  if (!isObject(data) || data.format !== BOARD_BUNDLE_FORMAT) {
+    throw new BoardBundleError('This is not a board file.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new BoardBundleError('The board file has no valid version.');
+  }
+  if (data.version > BOARD_BUNDLE_VERSION) {
+    throw new BoardBundleError(`This board file was written by a newer version (format ${data.version}). Update the app to import it.`);
+  }
+
+  const bundle = migrateBundle(data, data.version);
+  if (!isObject(bundle.board) || typeof bundle.board.id !== 'string' || typeof bundle.board.name !== 'string') {
+    throw new BoardBundleError('The board name is missing.');
+  }
+  if (bundle.snapshot !== null && (!isObject(bundle.snapshot) || !isObject(bundle.snapshot.store) || !isObject(bundle.snapshot.schema))) {
+    throw new BoardBundleError('The canvas snapshot is malformed.');
+  }
+  const index = bundle.index;
+  const model = isObject(index) ? index.model : null;
+  if (
+    !isObject(index)
+    || !isObject(model)
+    || typeof model.id !== 'string'
+    || typeof model.dimensions !== 'number'
+    || !Number.isInteger(model.dimensions)
+    || model.dimensions <= 0
+  ) {
+    throw new BoardBundleError('The embedding model metadata is missing.');
+  }
+
+  return {
+    format: BOARD_BUNDLE_FORMAT,
+    version: BOARD_BUNDLE_VERSION,
+    exportedAt: typeof bundle.exportedAt === 'string' ? bundle.exportedAt : '',
+    board: { id: bundle.board.id, name: bundle.board.name },
+    // Checked in depth by tldraw on import (migrateSnapshot)
+    snapshot: bundle.snapshot as TLStoreSnapshot | null,
+    index: {
+      model: { id: model.id, dimensions: model.dimensions },
+      entries: parseEntries(index.entries, model.dimensions)
+    },
+    threads: parseThreads(bundle.threads)
+  };
+};
+
+// Load the snapshot into a scratch store, which runs tldraw's own validation and
+// migrations, and return it in the current schema
+const migrateSnapshot = (snapshot: TLStoreSnapshot): TLStoreSnapshot => {
+  try {
+    const store = createTLStore();
+    loadSnapshot(store, snapshot);
+    return store.getStoreSnapshot();
+  } catch (error: any) {
+    throw new BoardBundleError(`The canvas snapshot could not be loaded: ${error?.message || error}`);
+  }
+};
+
+// A name not used by any other board
+const getUniqueBoardName = (name: string, boards: BoardMeta[]) => {
+  const names = new Set(boards.map(board => board.name));
+  if (!names.has(name)) return name;
+  let n = 2;
+  while (names.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+export interface BoardImportResult {
+  boards: BoardMeta[];
+  board: BoardMeta;
+  // Whether the stored embeddings were kept; otherwise the board re-indexes on open
+  reusedEmbeddings: boolean;
+}
+
+// Import as a new board. The bundle keeps its board id unless a board with that id
+// already exists, in which case it gets a fresh id and, if needed, a distinct name.
+export const importBoardBundle = async (bundle: BoardBundle): Promise<BoardImportResult> => {
+  const snapshot = bundle.snapshot ? migrateSnapshot(bundle.snapshot) : null;
+  const existing = loadBoards();
+  const idTaken = existing.some(board => board.id === bundle.board.id);
+  const board: BoardMeta = {
+    id: idTaken ? createBoardId() : bundle.board.id,
+    name: getUniqueBoardName(bundle.board.name, existing),
+    createdAt: Date.now()
+  };
+
+  // The board keeps the bundle's model if this app can run it; otherwise its
+  // embeddings are useless for queries and the board is indexed from scratch
+  const known = getEmbeddingModel(bundle.index.model.id);
+  const reusedEmbeddings = Boolean(known && isSameEmbeddingModel(known, bundle.index.model));
+  if (reusedEmbeddings && bundle.index.entries.length > 0) {
+    const entries = bundle.index.entries;
+    await writeIndexStore(getBoardIndexNamespace(board.id), {
+      meta: { model: bundle.index.model, rebuilding: false },
+      entries,
+      embeddings: entries.map(entry => ({ textHash: hashString(entry.name), embedding: entry.embedding }))
+    });
+  }
+  if (bundle.threads.length > 0) {
+    await saveThreads(board.id, bundle.threads);
+  }
+  if (snapshot) {
+    localStorage.setItem(getBoardSnapshotKey(board.id), JSON.stringify(snapshot));
+  }
+
+  return { boards: addBoard(board), board, reusedEmbeddings };
+};
+
+export const readBoardBundleFile = async (file: File): Promise<BoardBundle> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new BoardBundleError(`${file.name} is not valid JSON.`);
+  }
+  return parseBoardBundle(data);
+};
@@ -0,0 +1,124 @@
+import { copyThreads, deleteChatDatabase } from './chatThreads';
+import { copyBoardSettings, deleteBoardSettings } from './settings';
+import { copyIndexStore, deleteIndexDatabase } from './vectorStore';
+
+// Named boards. The list lives in localStorage; each board has its own tldraw
+// snapshot, vector index database and chat threads, all keyed by board id.
+
+export interface BoardMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const BOARDS_KEY = 'arkeith-boards';
+// Snapshot key from before boards existed; the default board keeps using it
+const LEGACY_PERSISTENCE_KEY = 'tldraw-whiteboard-state';
+
+export const DEFAULT_BOARD_ID = 'default';
+
+export const getBoardSnapshotKey = (boardId: string) =>
+  boardId === DEFAULT_BOARD_ID ? LEGACY_PERSISTENCE_KEY : `${LEGACY_PERSISTENCE_KEY}:${boardId}`;
+
+// Board ids double as vector index namespaces
+export const getBoardIndexNamespace = (boardId: string) => boardId;
+
+const defaultBoard = (): BoardMeta => ({
+  id: DEFAULT_BOARD_ID,
+  name: 'My board',
+  createdAt: 0,
+});
+
+export const loadBoards = (): BoardMeta[] => {
+  try {
+    const stored = localStorage.getItem(BOARDS_KEY);
+    const boards = stored ? (JSON.parse(stored) as BoardMeta[]) : [];
+    return boards.length > 0 ? boards : [defaultBoard()];
+  } catch (error) {
+    console.error('Failed to load boards:', error);
+    return [defaultBoard()];
+  }
+};
+
+const saveBoards = (boards: BoardMeta[]) => {
+  localStorage.setItem(BOARDS_KEY, JSON.stringify(boards));
+};
+
+export const createBoardId = () =>
+  `board-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBoard = (name: string): BoardMeta[] => {
+  const boards = loadBoards();
+  const board: BoardMeta = { id: createBoardId(), name, createdAt: Date.now() };
+  const next = [...boards, board];
+  saveBoards(next);
+  return next;
+};
+
+// Register a board whose stores were filled elsewhere, e.g. by an import
+export const addBoard = (board: BoardMeta): BoardMeta[] => {
+  const next = [...loadBoards(), board];
+  saveBoards(next);
+  return next;
+};
+
+export const renameBoard = (boardId: string, name: string): BoardMeta[] => {
+  const next = loadBoards().map(board => (board.id === boardId ? { ...board, name } : board));
+  saveBoards(next);
+  return next;
+};
+
+// Copies the snapshot, settings, index and chat threads; shape ids are kept, so the copied
+// index entries stay valid for the new board
+export const duplicateBoard = async (boardId: string, name: string): Promise<{ boards: BoardMeta[]; board: BoardMeta }> => {
+  const board: BoardMeta = { id: createBoardId(), name, createdAt: Date.now() };
+
+  const snapshot = localStorage.getItem(getBoardSnapshotKey(boardId));
+  if (snapshot) localStorage.setItem(getBoardSnapshotKey(board.id), snapshot);
+  copyBoardSettings(boardId, board.id);
+
+  await copyIndexStore(getBoardIndexNamespace(boardId), getBoardIndexNamespace(board.id))
+    .catch(error => console.error('Failed to copy board index:', error));
+  await copyThreads(boardId, board.id)
+    .catch(error => console.error('Failed to copy chat threads:', error));
+
+  const boards = [...loadBoards(), board];
+  saveBoards(boards);
+  return { boards, board };
+};
+
+// Removes the board from the list. The last board cannot be deleted. Its stored
+// data stays until deleteBoardStorage, which must wait until the board's view is
+// closed; the view keeps saving its canvas, index and chat while it is open.
+export const removeBoard = (boardId: string): BoardMeta[] => {
+  const boards = loadBoards();
+  if (boards.length <= 1) return boards;
+
+  const next = boards.filter(board => board.id !== boardId);
+  saveBoards(next);
+  return next;
+};
+
+// Removes everything stored for a board
+export const deleteBoardStorage = async (boardId: string) => {
+  localStorage.removeItem(getBoardSnapshotKey(boardId));
+  deleteBoardSettings(boardId);
+  await deleteIndexDatabase(getBoardIndexNamespace(boardId))
+    .catch(error => console.error('Failed to delete board index:', error));
+  await deleteChatDatabase(boardId)
+    .catch(error => console.error('Failed to delete chat threads:', error));
+};
+
+// Boards are deep-linked with ?board=<id>, which also works in the static export
+export const getBoardIdFromUrl = (): string | null =>
+  new URLSearchParams(window.location.search).get('board');
+
+export const setBoardIdInUrl = (boardId: string, { replace = false } = {}) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('board', boardId);
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};
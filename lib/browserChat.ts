@@ -0,0 +1,124 @@
+import { CANVAS_TOOLS } from './canvasTools';
+import { ChatApiError, ChatProviderInfo, parseChatRequest } from './chatApi';
+import { buildChatPrompt, getAnswerEvents } from './chatPrompt';
+import { createChatStream } from './chatStream';
+import { streamOpenAIChat } from './openAIChat';
+import type { ToolCallRequest } from './providers';
+
+// Chat without the server route, for the static GitHub Pages build. The browser
+// calls an OpenAI-compatible endpoint itself, with a key the user enters and that
+// is only stored in this browser. Requests are validated and prompted exactly as
+// /api/chat does, and answers are streamed as the same events.
+
+export type ChatMode = 'server' | 'browser';
+
+export interface BrowserChatSettings {
+  // Base URL of the chat completions API, e.g. https://openrouter.ai/api/v1
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  supportsImages: boolean;
+  supportsTools: boolean;
+}
+
+export const DEFAULT_BROWSER_CHAT_SETTINGS: BrowserChatSettings = {
+  baseUrl: 'https://openrouter.ai/api/v1',
+  apiKey: '',
+  model: 'openai/gpt-4o-mini',
+  supportsImages: true,
+  supportsTools: true,
+};
+
+const SETTINGS_KEY = 'arkeith-browser-chat';
+
+export const loadBrowserChatSettings = (): BrowserChatSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    const settings = { ...DEFAULT_BROWSER_CHAT_SETTINGS, ...(stored && typeof stored === 'object' ? stored : {}) };
+    // Fields are trimmed on blur, so a value saved while typing may still have spaces
+    return { ...settings, baseUrl: settings.baseUrl.trim(), apiKey: settings.apiKey.trim(), model: settings.model.trim() };
+  } catch {
+    return DEFAULT_BROWSER_CHAT_SETTINGS;
+  }
+};
+
+export const saveBrowserChatSettings = (settings: BrowserChatSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Local servers (llama.cpp, Ollama) accept requests without a key
+const isLocalEndpoint = (baseUrl: string) => {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(baseUrl).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const getBrowserChatInfo = (settings: BrowserChatSettings): ChatProviderInfo => ({
+  provider: 'openai-compatible',
+  model: settings.model,
+  supportsImages: settings.supportsImages,
+  supportsTools: settings.supportsTools,
+  configured: Boolean(settings.baseUrl && settings.model && (settings.apiKey || isLocalEndpoint(settings.baseUrl)))
+});
+
+// The static build serves a 404 page (or nothing) for /api/chat; the server
+// answers with the provider it uses, or with a JSON error when it is misconfigured
+export const detectChatMode = async (): Promise<{ mode: ChatMode; info: ChatProviderInfo | null }> => {
+  try {
+    const response = await fetch('/api/chat');
+    if (!response.headers.get('content-type')?.includes('application/json')) {
+      return { mode: 'browser', info: null };
+    }
+    const body = await response.json();
+    return { mode: 'server', info: response.ok ? body as ChatProviderInfo : null };
+  } catch {
+    return { mode: 'browser', info: null };
+  }
+};
+
+// Answer a /api/chat request body from the browser, as the same SSE stream the
+// route returns. The model always comes from the connection settings, so a
+// model meant for the server never reaches another endpoint. Invalid requests
+// and missing settings throw a ChatApiError.
+export const streamBrowserChat = (
+  body: unknown,
+  settings: BrowserChatSettings,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> => {
+  const { messages, sources, images, maxTokens, canvasActions } = parseChatRequest(body);
+  if (!getBrowserChatInfo(settings).configured) {
+    throw new ChatApiError('missing_api_key', 'Browser chat needs an endpoint, a model and an API key; set them under Chat connection');
+  }
+
+  const useTools = settings.supportsTools && canvasActions;
+  const abortController = new AbortController();
+  signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+  let toolCalls: ToolCallRequest[] = [];
+  const deltas = async function* () {
+    const { OpenAI } = await import('openai');
+    const client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: settings.apiKey || 'not-needed',
+      baseURL: settings.baseUrl,
+      dangerouslyAllowBrowser: true
+    });
+    yield* streamOpenAIChat(client, settings.model, {
+      messages: buildChatPrompt({ messages, sources, images }, { supportsImages: settings.supportsImages, useTools }),
+      maxTokens,
+      signal: abortController.signal,
+      tools: useTools ? CANVAS_TOOLS : undefined,
+      onToolCalls: (calls) => {
+        toolCalls = calls;
+      }
+    });
+  };
+
+  return createChatStream(
+    deltas(),
+    () => abortController.abort(),
+    (answer) => getAnswerEvents(answer, sources, toolCalls)
+  );
+};
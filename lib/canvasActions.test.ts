@@ -0,0 +1,79 @@
+import type { Editor } from '@tldraw/tldraw';
+import { describe, expect, it, vi } from 'vitest';
+import { applyCanvasToolCalls, validateCanvasToolCalls } from './canvasActions';
+import { CanvasAction, CanvasToolCall } from './canvasTools';
+
+// An editor that only knows which page each shape is on
+const fakeEditor = (pages: Record<string, string>) => ({
+  getShape: (id: string) => (pages[id] ? { id } : undefined),
+  getAncestorPageId: (id: string) => pages[id],
+  markHistoryStoppingPoint: vi.fn(),
+  run: (fn: () => void) => fn()
+}) as unknown as Editor;
+
+const editor = fakeEditor({ 'shape:1': 'page:1', 'shape:2': 'page:1', 'shape:3': 'page:2' });
+
+const call = (action: CanvasAction | null, error?: string): CanvasToolCall => ({
+  id: 'call-1',
+  name: action?.type || 'create_note',
+  action,
+  ...(error ? { error } : {})
+});
+
+describe('validateCanvasToolCalls', () => {
+  const valid: { name: string; action: CanvasAction }[] = [
+    { name: 'a note without neighbours', action: { type: 'create_note', text: 'Hi', nearShapeIds: [], color: 'yellow' } },
+    { name: 'a note next to known shapes', action: { type: 'create_note', text: 'Hi', nearShapeIds: ['shape:1'], color: 'yellow' } },
+    { name: 'a frame around shapes on one page', action: { type: 'create_frame', title: 'Launch', shapeIds: ['shape:1', 'shape:2'] } },
+    { name: 'a move across pages', action: { type: 'move_shapes', shapeIds: ['shape:3'], dx: 10, dy: 0 } }
+  ];
+
+  it.each(valid)('keeps $name', ({ action }) => {
+    expect(validateCanvasToolCalls(editor, [call(action)])).toEqual([call(action)]);
+  });
+
+  const invalid: { name: string; action: CanvasAction; error: string }[] = [
+    {
+      name: 'an unknown shape',
+      action: { type: 'create_note', text: 'Hi', nearShapeIds: ['shape:1', 'shape:9'], color: 'yellow' },
+      error: 'Unknown shape id: shape:9'
+    },
+    {
+      name: 'several unknown shapes',
+      action: { type: 'create_arrow', fromShapeId: 'shape:8', toShapeId: 'shape:9', label: '' },
+      error: 'Unknown shape ids: shape:8, shape:9'
+    },
+    {
+      name: 'shapes on different pages',
+      action: { type: 'create_frame', title: 'Launch', shapeIds: ['shape:1', 'shape:3'] },
+      error: 'The shapes are on different pages'
+    }
+  ];
+
+  it.each(invalid)('rejects $name', ({ action, error }) => {
+    expect(validateCanvasToolCalls(editor, [call(action)])).toEqual([{ ...call(action), action: null, error }]);
+  });
+
+  it('passes on calls that failed to parse', () => {
+    const failed = call(null, 'The note has no text');
+    expect(validateCanvasToolCalls(editor, [failed])).toEqual([failed]);
+  });
+
+  it('returns an empty list unchanged', () => {
+    expect(validateCanvasToolCalls(editor, [])).toEqual([]);
+  });
+});
+
+describe('applyCanvasToolCalls', () => {
+  it('applies nothing for an empty list', () => {
+    expect(applyCanvasToolCalls(editor, [])).toEqual({ applied: 0, rejected: [] });
+  });
+
+  it('rejects calls whose shapes are gone and skips failed ones', () => {
+    const gone = call({ type: 'move_shapes', shapeIds: ['shape:9'], dx: 10, dy: 0 });
+    expect(applyCanvasToolCalls(editor, [gone, call(null, 'The note has no text')])).toEqual({
+      applied: 0,
+      rejected: [{ ...gone, action: null, error: 'Unknown shape id: shape:9' }]
+    });
+  });
+});
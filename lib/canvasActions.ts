@@ -0,0 +1,189 @@
+import { Box, createShapeId, Editor, TLPageId, TLShapeId } from '@tldraw/tldraw';
+import { CanvasAction, CanvasToolCall, getActionShapeIds, NoteColor } from './canvasTools';
+
+// Applies assistant tool calls to the editor. Calls are checked against the board
+// first: any call that references a missing shape, or shapes on different pages,
+// is rejected and left out.
+
+const NOTE_GAP = 40;
+const FRAME_PADDING = 32;
+
+const getPageIdOf = (editor: Editor, shapeIds: string[]) => {
+  const pageIds = new Set(shapeIds.map(id => editor.getAncestorPageId(id as TLShapeId)));
+  return pageIds.size === 1 ? Array.from(pageIds)[0] : null;
+};
+
+// Why a call cannot be applied to the board as it is now, if it cannot
+export const getCanvasActionError = (editor: Editor, action: CanvasAction): string | null => {
+  const shapeIds = getActionShapeIds(action);
+  const unknown = shapeIds.filter(id => !editor.getShape(id as TLShapeId));
+  if (unknown.length > 0) return `Unknown shape id${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`;
+  if (shapeIds.length > 1 && !getPageIdOf(editor, shapeIds)) return 'The shapes are on different pages';
+  return null;
+};
+
+// Mark calls that reference unknown shapes as rejected
+export const validateCanvasToolCalls = (editor: Editor, calls: CanvasToolCall[]): CanvasToolCall[] =>
+  calls.map((call) => {
+    if (!call.action) return call;
+    const error = getCanvasActionError(editor, call.action);
+    return error ? { ...call, action: null, error } : call;
+  });
+
+const getShapesBounds = (editor: Editor, shapeIds: string[]): Box | null => {
+  const boxes = shapeIds
+    .map(id => editor.getShapePageBounds(id as TLShapeId))
+    .filter((box): box is Box => Boolean(box));
+  return boxes.length > 0 ? Box.Common(boxes) : null;
+};
+
+// Switch to the page holding the shapes, so new shapes are created next to them
+const showPageOf = (editor: Editor, shapeIds: string[]) => {
+  const pageId = getPageIdOf(editor, shapeIds);
+  if (pageId && pageId !== editor.getCurrentPageId()) {
+    editor.setCurrentPage(pageId);
+  }
+};
+
+// A note to the right of the given shapes, or in view when there are none
+const createNoteNear = (editor: Editor, text: string, color: NoteColor, nearShapeIds: string[]) => {
+  showPageOf(editor, nearShapeIds);
+  const near = getShapesBounds(editor, nearShapeIds);
+  const point = near
+    ? { x: near.maxX + NOTE_GAP, y: near.minY }
+    : editor.getViewportPageBounds().center;
+  const noteId = createShapeId();
+  editor.createShape({
+    id: noteId,
+    type: 'note',
+    x: point.x,
+    y: point.y,
+    props: { text, color }
+  });
+  return noteId;
+};
+
+// An arrow bound to both shapes, so it follows them when they move
+const createArrowBetween = (editor: Editor, fromId: TLShapeId, toId: TLShapeId, label = '') => {
+  const from = getShapesBounds(editor, [fromId]);
+  const to = getShapesBounds(editor, [toId]);
+  if (!from || !to) return;
+  const arrowId = createShapeId();
+  editor.createShape({
+    id: arrowId,
+    type: 'arrow',
+    x: from.center.x,
+    y: from.center.y,
+    props: {
+      start: { x: 0, y: 0 },
+      end: { x: to.center.x - from.center.x, y: to.center.y - from.center.y },
+      text: label
+    }
+  });
+  const terminalProps = { normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false };
+  editor.createBindings([
+    { type: 'arrow', fromId: arrowId, toId: fromId, props: { ...terminalProps, terminal: 'start' } },
+    { type: 'arrow', fromId: arrowId, toId, props: { ...terminalProps, terminal: 'end' } }
+  ]);
+};
+
+const applyAction = (editor: Editor, action: CanvasAction) => {
+  switch (action.type) {
+    case 'create_note':
+      createNoteNear(editor, action.text, action.color, action.nearShapeIds);
+      break;
+    case 'create_frame': {
+      showPageOf(editor, action.shapeIds);
+      const bounds = getShapesBounds(editor, action.shapeIds);
+      if (!bounds) return;
+      const frameId = createShapeId();
+      editor.createShape({
+        id: frameId,
+        type: 'frame',
+        x: bounds.minX - FRAME_PADDING,
+        y: bounds.minY - FRAME_PADDING,
+        props: {
+          w: bounds.w + FRAME_PADDING * 2,
+          h: bounds.h + FRAME_PADDING * 2,
+          name: action.title
+        }
+      });
+      editor.reparentShapes(action.shapeIds as TLShapeId[], frameId);
+      break;
+    }
+    case 'create_arrow':
+      showPageOf(editor, [action.fromShapeId, action.toShapeId]);
+      createArrowBetween(editor, action.fromShapeId as TLShapeId, action.toShapeId as TLShapeId, action.label);
+      break;
+    case 'move_shapes':
+      editor.nudgeShapes(action.shapeIds as TLShapeId[], { x: action.dx, y: action.dy });
+      break;
+  }
+};
+
+export interface CanvasApplyResult {
+  applied: number;
+  rejected: CanvasToolCall[];
+}
+
+// Apply the calls as a single undoable step. Each call is checked again, since the
+// board may have changed while the preview was open.
+export const applyCanvasToolCalls = (editor: Editor, calls: CanvasToolCall[]): CanvasApplyResult => {
+  const rejected: CanvasToolCall[] = [];
+  let applied = 0;
+
+  editor.markHistoryStoppingPoint('assistant canvas actions');
+  editor.run(() => {
+    for (const call of calls) {
+      if (!call.action) continue;
+      const error = getCanvasActionError(editor, call.action);
+      if (error) {
+        rejected.push({ ...call, action: null, error });
+        continue;
+      }
+      applyAction(editor, call.action);
+      applied++;
+    }
+  });
+
+  return { applied, rejected };
+};
+
+// Put an answer about some shapes in a note next to them, with an arrow from the
+// note to the nearest of the shapes, as a single undoable step
+export const addLinkedNote = (editor: Editor, text: string, color: NoteColor, shapeIds: TLShapeId[]) => {
+  const existing = shapeIds.filter(id => editor.getShape(id));
+  editor.markHistoryStoppingPoint('assistant note');
+  editor.run(() => {
+    const noteId = createNoteNear(editor, text, color, existing);
+    const note = getShapesBounds(editor, [noteId]);
+    const nearest = note && existing
+      .filter(id => editor.getAncestorPageId(id) === editor.getAncestorPageId(noteId))
+      .map(id => ({ id, bounds: getShapesBounds(editor, [id]) }))
+      .filter((shape): shape is { id: TLShapeId; bounds: Box } => Boolean(shape.bounds))
+      .sort((a, b) => a.bounds.center.dist(note.center) - b.bounds.center.dist(note.center))[0];
+    if (nearest) createArrowBetween(editor, noteId, nearest.id);
+  });
+};
+
+// Put a note with its top left corner at a point, e.g. dictated text at the cursor
+export const addNoteAt = (
+  editor: Editor,
+  text: string,
+  color: NoteColor,
+  pageId: TLPageId,
+  point: { x: number; y: number }
+) => {
+  if (!editor.getPage(pageId)) return null;
+  editor.markHistoryStoppingPoint('dictated note');
+  const noteId = createShapeId();
+  editor.createShape({
+    id: noteId,
+    type: 'note',
+    parentId: pageId,
+    x: point.x,
+    y: point.y,
+    props: { text, color }
+  });
+  return noteId;
+};
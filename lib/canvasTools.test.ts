@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CANVAS_TOOLS, CanvasAction, describeCanvasAction, getActionShapeIds, parseCanvasToolCall } from './canvasTools';
+
+const parse = (name: string, args: unknown) =>
+  parseCanvasToolCall({ id: 'call-1', name, arguments: typeof args === 'string' ? args : JSON.stringify(args) });
+
+describe('parseCanvasToolCall', () => {
+  it.each([
+    {
+      name: 'create_note',
+      args: { text: '  Follow up  ', near_shape_ids: ['shape:1'], color: 'blue' },
+      action: { type: 'create_note', text: 'Follow up', nearShapeIds: ['shape:1'], color: 'blue' }
+    },
+    {
+      name: 'create_note',
+      args: { text: 'Follow up', color: 'pink' },
+      action: { type: 'create_note', text: 'Follow up', nearShapeIds: [], color: 'yellow' }
+    },
+    {
+      name: 'create_frame',
+      args: { title: ' Launch ', shape_ids: ['shape:1', 'shape:2'] },
+      action: { type: 'create_frame', title: 'Launch', shapeIds: ['shape:1', 'shape:2'] }
+    },
+    {
+      name: 'create_arrow',
+      args: { from_shape_id: 'shape:1', to_shape_id: 'shape:2', label: ' blocks ' },
+      action: { type: 'create_arrow', fromShapeId: 'shape:1', toShapeId: 'shape:2', label: 'blocks' }
+    },
+    {
+      name: 'create_arrow',
+      args: { from_shape_id: 'shape:1', to_shape_id: 'shape:2', label: 3 },
+      action: { type: 'create_arrow', fromShapeId: 'shape:1', toShapeId: 'shape:2', label: '' }
+    },
+    {
+      name: 'move_shapes',
+      args: { shape_ids: ['shape:1'], dx: -20.5, dy: 0 },
+      action: { type: 'move_shapes', shapeIds: ['shape:1'], dx: -20.5, dy: 0 }
+    }
+  ])('reads a valid $name call', ({ name, args, action }) => {
+    expect(parse(name, args)).toEqual({ id: 'call-1', name, action });
+  });
+
+  it.each([
+    { name: 'create_note', args: 'not json', error: 'The arguments are not valid JSON' },
+    { name: 'create_note', args: '"text"', error: 'The arguments are not an object' },
+    { name: 'create_note', args: 'null', error: 'The arguments are not an object' },
+    { name: 'create_note', args: {}, error: 'The note has no text' },
+    { name: 'create_note', args: { text: '   ' }, error: 'The note has no text' },
+    { name: 'create_note', args: { text: 'Hi', near_shape_ids: 'shape:1' }, error: 'near_shape_ids must be a list of shape ids' },
+    { name: 'create_note', args: { text: 'Hi', near_shape_ids: [1] }, error: 'near_shape_ids must be a list of shape ids' },
+    { name: 'create_frame', args: { shape_ids: ['shape:1'] }, error: 'The frame has no title' },
+    { name: 'create_frame', args: { title: 'Launch', shape_ids: [] }, error: 'The frame has no shapes' },
+    { name: 'create_frame', args: { title: 'Launch', shape_ids: 'shape:1' }, error: 'The frame has no shapes' },
+    { name: 'create_arrow', args: { from_shape_id: 'shape:1' }, error: 'The arrow needs two shapes' },
+    { name: 'create_arrow', args: { from_shape_id: 'shape:1', to_shape_id: 1 }, error: 'The arrow needs two shapes' },
+    { name: 'create_arrow', args: { from_shape_id: 'shape:1', to_shape_id: 'shape:1' }, error: 'The arrow starts and ends on the same shape' },
+    { name: 'move_shapes', args: { shape_ids: [], dx: 1, dy: 1 }, error: 'No shapes to move' },
+    { name: 'move_shapes', args: { shape_ids: ['shape:1'], dx: '10', dy: 0 }, error: 'The offset must be numbers' },
+    { name: 'move_shapes', args: { shape_ids: ['shape:1'], dx: 10 }, error: 'The offset must be numbers' },
+    { name: 'delete_shapes', args: { shape_ids: ['shape:1'] }, error: 'Unknown tool delete_shapes' }
+  ])('rejects $name with $args: $error', ({ name, args, error }) => {
+    expect(parse(name, args)).toEqual({ id: 'call-1', name, action: null, error });
+  });
+
+  it('treats missing arguments as an empty object', () => {
+    expect(parseCanvasToolCall({ id: 'call-1', name: 'create_note', arguments: '' }).error).toBe('The note has no text');
+  });
+});
+
+describe('canvas actions', () => {
+  it('offers a tool for every action', () => {
+    expect(CANVAS_TOOLS.map(tool => tool.function.name)).toEqual(['create_note', 'create_frame', 'create_arrow', 'move_shapes']);
+  });
+
+  const actions: { action: CanvasAction; shapeIds: string[]; summary: string }[] = [
+    { action: { type: 'create_note', text: 'Hi', nearShapeIds: ['shape:1'], color: 'yellow' }, shapeIds: ['shape:1'], summary: 'Add a yellow note “Hi”' },
+    { action: { type: 'create_frame', title: '', shapeIds: ['shape:1'] }, shapeIds: ['shape:1'], summary: 'Frame 1 shape as “Frame”' },
+    { action: { type: 'create_arrow', fromShapeId: 'shape:1', toShapeId: 'shape:2', label: '' }, shapeIds: ['shape:1', 'shape:2'], summary: 'Draw an arrow between two shapes' },
+    { action: { type: 'move_shapes', shapeIds: ['shape:1', 'shape:2'], dx: 10.4, dy: -5.6 }, shapeIds: ['shape:1', 'shape:2'], summary: 'Move 2 shapes by (10, -6)' }
+  ];
+
+  it.each(actions)('lists the shapes of $action.type and describes it', ({ action, shapeIds, summary }) => {
+    expect(getActionShapeIds(action)).toEqual(shapeIds);
+    expect(describeCanvasAction(action)).toBe(summary);
+  });
+});
@@ -0,0 +1,178 @@
+import type { ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { ToolCallRequest } from './providers';
+
+// Tools the assistant can call to change the board. The route offers them to the
+// model and parses the calls; the sidebar previews them and applies the ones the
+// user confirms (see canvasActions.ts). Shape ids are checked against the board on
+// the client, since only the editor knows which shapes exist.
+
+export const NOTE_COLORS = ['yellow', 'blue', 'green', 'red', 'orange', 'violet', 'grey'] as const;
+export type NoteColor = (typeof NOTE_COLORS)[number];
+
+export type CanvasAction =
+  | { type: 'create_note'; text: string; nearShapeIds: string[]; color: NoteColor }
+  | { type: 'create_frame'; title: string; shapeIds: string[] }
+  | { type: 'create_arrow'; fromShapeId: string; toShapeId: string; label: string }
+  | { type: 'move_shapes'; shapeIds: string[]; dx: number; dy: number };
+
+export interface CanvasToolCall {
+  id: string;
+  name: string;
+  // Null when the call could not be used; `error` says why
+  action: CanvasAction | null;
+  error?: string;
+}
+
+const shapeIdList = (description: string) => ({
+  type: 'array',
+  items: { type: 'string' },
+  description
+});
+
+export const CANVAS_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_note',
+      description: 'Add a sticky note to the whiteboard, placed next to related shapes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: 'Text of the note' },
+          near_shape_ids: shapeIdList('Shapes to place the note next to; the note goes in view when empty'),
+          color: { type: 'string', enum: [...NOTE_COLORS] }
+        },
+        required: ['text']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_frame',
+      description: 'Group shapes into a new titled frame drawn around them.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Frame title' },
+          shape_ids: shapeIdList('Shapes to put in the frame; they must be on the same page')
+        },
+        required: ['title', 'shape_ids']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_arrow',
+      description: 'Draw an arrow connecting two related shapes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          from_shape_id: { type: 'string' },
+          to_shape_id: { type: 'string' },
+          label: { type: 'string', description: 'Optional arrow label' }
+        },
+        required: ['from_shape_id', 'to_shape_id']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'move_shapes',
+      description: 'Move shapes by an offset in canvas units (x grows to the right, y grows downwards).',
+      parameters: {
+        type: 'object',
+        properties: {
+          shape_ids: shapeIdList('Shapes to move'),
+          dx: { type: 'number' },
+          dy: { type: 'number' }
+        },
+        required: ['shape_ids', 'dx', 'dy']
+      }
+    }
+  }
+];
+
+export const CANVAS_TOOL_INSTRUCTIONS =
+  'Each piece of whiteboard content lists the ids of its shapes. You can change the whiteboard with the provided tools, but only when the user asks for changes, and only with shape ids listed in the content. The user reviews every change before it is applied.';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const toAction = (name: string, args: Record<string, any>): CanvasAction | string => {
+  switch (name) {
+    case 'create_note':
+      if (typeof args.text !== 'string' || !args.text.trim()) return 'The note has no text';
+      if (args.near_shape_ids !== undefined && !isStringArray(args.near_shape_ids)) return 'near_shape_ids must be a list of shape ids';
+      return {
+        type: 'create_note',
+        text: args.text.trim(),
+        nearShapeIds: args.near_shape_ids || [],
+        color: NOTE_COLORS.includes(args.color) ? args.color : 'yellow'
+      };
+    case 'create_frame':
+      if (typeof args.title !== 'string') return 'The frame has no title';
+      if (!isStringArray(args.shape_ids) || args.shape_ids.length === 0) return 'The frame has no shapes';
+      return { type: 'create_frame', title: args.title.trim(), shapeIds: args.shape_ids };
+    case 'create_arrow':
+      if (typeof args.from_shape_id !== 'string' || typeof args.to_shape_id !== 'string') return 'The arrow needs two shapes';
+      if (args.from_shape_id === args.to_shape_id) return 'The arrow starts and ends on the same shape';
+      return {
+        type: 'create_arrow',
+        fromShapeId: args.from_shape_id,
+        toShapeId: args.to_shape_id,
+        label: typeof args.label === 'string' ? args.label.trim() : ''
+      };
+    case 'move_shapes':
+      if (!isStringArray(args.shape_ids) || args.shape_ids.length === 0) return 'No shapes to move';
+      if (!Number.isFinite(args.dx) || !Number.isFinite(args.dy)) return 'The offset must be numbers';
+      return { type: 'move_shapes', shapeIds: args.shape_ids, dx: args.dx, dy: args.dy };
+    default:
+      return `Unknown tool ${name}`;
+  }
+};
+
+export const parseCanvasToolCall = ({ id, name, arguments: rawArgs }: ToolCallRequest): CanvasToolCall => {
+  let args: unknown;
+  try {
+    args = rawArgs ? JSON.parse(rawArgs) : {};
+  } catch {
+    return { id, name, action: null, error: 'The arguments are not valid JSON' };
+  }
+  if (typeof args !== 'object' || args === null) {
+    return { id, name, action: null, error: 'The arguments are not an object' };
+  }
+  const action = toAction(name, args as Record<string, any>);
+  return typeof action === 'string'
+    ? { id, name, action: null, error: action }
+    : { id, name, action };
+};
+
+export const getActionShapeIds = (action: CanvasAction): string[] => {
+  switch (action.type) {
+    case 'create_note': return action.nearShapeIds;
+    case 'create_frame': return action.shapeIds;
+    case 'create_arrow': return [action.fromShapeId, action.toShapeId];
+    case 'move_shapes': return action.shapeIds;
+  }
+};
+
+const quote = (text: string, max = 40) => `“${text.length > max ? `${text.slice(0, max - 1)}…` : text}”`;
+
+const countShapes = (ids: string[]) => `${ids.length} shape${ids.length === 1 ? '' : 's'}`;
+
+// One line summary for the preview
+export const describeCanvasAction = (action: CanvasAction): string => {
+  switch (action.type) {
+    case 'create_note':
+      return `Add a ${action.color} note ${quote(action.text)}`;
+    case 'create_frame':
+      return `Frame ${countShapes(action.shapeIds)} as ${quote(action.title || 'Frame')}`;
+    case 'create_arrow':
+      return action.label ? `Draw an arrow labelled ${quote(action.label)}` : 'Draw an arrow between two shapes';
+    case 'move_shapes':
+      return `Move ${countShapes(action.shapeIds)} by (${Math.round(action.dx)}, ${Math.round(action.dy)})`;
+  }
+};
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHAT_LIMITS,
+  ChatApiError,
+  ChatErrorCode,
+  parseChatRequest,
+  readChatApiError,
+  readChatRequest,
+  toChatApiError
+} from './chatApi';
+
+// 1x1 transparent PNG
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const MESSAGES = [{ role: 'user', content: 'Hi' }];
+
+const source = (i: number, text = `Note ${i}`) => ({ ref: `r${i}`, text, shapeIds: [`shape:${i}`] });
+
+const image = (src = PIXEL) => ({ src, refs: [] });
+
+// Base64 data that decodes to one byte more than an image may have
+const OVERSIZED_PNG = `data:image/png;base64,${'A'.repeat(Math.ceil((CHAT_LIMITS.maxImageBytes + 1) * 4 / 3))}`;
+
+const getError = (run: () => unknown): ChatApiError => {
+  try {
+    run();
+  } catch (error) {
+    return error as ChatApiError;
+  }
+  throw new Error('Expected an error');
+};
+
+const getAsyncError = async (run: () => Promise<unknown>): Promise<ChatApiError> => {
+  try {
+    await run();
+  } catch (error) {
+    return error as ChatApiError;
+  }
+  throw new Error('Expected an error');
+};
+
+describe('parseChatRequest', () => {
+  const rejected: { name: string; body: unknown; code: ChatErrorCode }[] = [
+    { name: 'a body that is not an object', body: [MESSAGES], code: 'bad_request' },
+    { name: 'no messages', body: { messages: [] }, code: 'bad_request' },
+    { name: 'an unknown role', body: { messages: [{ role: 'system', content: 'Hi' }] }, code: 'bad_request' },
+    {
+      name: 'too many messages',
+      body: { messages: Array.from({ length: CHAT_LIMITS.maxMessages + 1 }, () => MESSAGES[0]) },
+      code: 'payload_too_large'
+    },
+    {
+      name: 'an overlong message',
+      body: { messages: [{ role: 'user', content: 'x'.repeat(CHAT_LIMITS.maxMessageChars + 1) }] },
+      code: 'payload_too_large'
+    },
+    {
+      name: 'too many sources',
+      body: { messages: MESSAGES, sources: Array.from({ length: CHAT_LIMITS.maxSources + 1 }, (_, i) => source(i)) },
+      code: 'payload_too_large'
+    },
+    {
+      name: 'oversized source text',
+      body: { messages: MESSAGES, sources: [source(0, 'x'.repeat(CHAT_LIMITS.maxSourceChars + 1))] },
+      code: 'payload_too_large'
+    },
+    { name: 'a malformed source', body: { messages: MESSAGES, sources: [{ ref: 'r0', text: 'Note' }] }, code: 'bad_request' },
+    {
+      name: 'more than four images',
+      body: { messages: MESSAGES, images: Array.from({ length: CHAT_LIMITS.maxImages + 1 }, () => image()) },
+      code: 'payload_too_large'
+    },
+    { name: 'an oversized image', body: { messages: MESSAGES, images: [image(OVERSIZED_PNG)] }, code: 'payload_too_large' },
+    { name: 'an SVG image', body: { messages: MESSAGES, images: [image('data:image/svg+xml;base64,PHN2Zy8+')] }, code: 'bad_request' },
+    { name: 'a legacy base64Image that is not a string', body: { messages: MESSAGES, base64Image: 42 }, code: 'bad_request' },
+    { name: 'an oversized legacy base64Image', body: { messages: MESSAGES, base64Image: OVERSIZED_PNG }, code: 'payload_too_large' },
+    { name: 'maxTokens of 0', body: { messages: MESSAGES, maxTokens: 0 }, code: 'bad_request' },
+    { name: 'maxTokens as a string', body: { messages: MESSAGES, maxTokens: '512' }, code: 'bad_request' },
+    { name: 'maxTokens over the limit', body: { messages: MESSAGES, maxTokens: CHAT_LIMITS.maxTokens + 1 }, code: 'bad_request' },
+    { name: 'an empty model', body: { messages: MESSAGES, model: ' ' }, code: 'bad_request' },
+    { name: 'canvasActions that is not a boolean', body: { messages: MESSAGES, canvasActions: 'yes' }, code: 'bad_request' }
+  ];
+
+  it.each(rejected)('rejects $name with $code', ({ body, code }) => {
+    const error = getError(() => parseChatRequest(body));
+    expect(error).toBeInstanceOf(ChatApiError);
+    expect(error.code).toBe(code);
+  });
+
+  it('accepts requests at the limits', () => {
+    const request = parseChatRequest({
+      messages: Array.from({ length: CHAT_LIMITS.maxMessages }, () => MESSAGES[0]),
+      sources: [source(0, 'x'.repeat(CHAT_LIMITS.maxSourceChars))],
+      images: Array.from({ length: CHAT_LIMITS.maxImages }, () => image()),
+      maxTokens: CHAT_LIMITS.maxTokens
+    });
+    expect(request.messages).toHaveLength(CHAT_LIMITS.maxMessages);
+    expect(request.images).toHaveLength(CHAT_LIMITS.maxImages);
+    expect(request.canvasActions).toBe(true);
+  });
+
+  it('turns the legacy base64Image into an image without refs', () => {
+    expect(parseChatRequest({ messages: MESSAGES, base64Image: PIXEL }).images).toEqual([{ src: PIXEL, refs: [] }]);
+  });
+
+  it('prefers images over the legacy base64Image', () => {
+    const images = [{ src: PIXEL, refs: ['r0'] }];
+    expect(parseChatRequest({ messages: MESSAGES, images, base64Image: PIXEL }).images).toEqual(images);
+  });
+});
+
+describe('readChatRequest', () => {
+  const post = (body: BodyInit, headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/chat', { method: 'POST', headers, body });
+
+  it('rejects a declared Content-Length over the limit before reading', async () => {
+    const request = post(JSON.stringify({ messages: MESSAGES }));
+    request.headers.set('content-length', String(CHAT_LIMITS.maxBodyBytes + 1));
+    const error = await getAsyncError(() => readChatRequest(request));
+    expect(error.code).toBe('payload_too_large');
+  });
+
+  it('measures multibyte bodies in bytes, whatever Content-Length says', async () => {
+    // Under the limit in characters, over it in UTF-8 bytes
+    const content = 'é'.repeat(CHAT_LIMITS.maxBodyBytes / 2 + 1);
+    expect(content.length).toBeLessThan(CHAT_LIMITS.maxBodyBytes);
+    const request = post(JSON.stringify({ messages: [{ role: 'user', content }] }));
+    request.headers.set('content-length', 'not a number');
+    const error = await getAsyncError(() => readChatRequest(request));
+    expect(error.code).toBe('payload_too_large');
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const error = await getAsyncError(() => readChatRequest(post('{"messages":')));
+    expect(error.code).toBe('bad_request');
+  });
+
+  it('decodes and validates a UTF-8 body', async () => {
+    const request = await readChatRequest(post(JSON.stringify({ messages: [{ role: 'user', content: 'Grüße' }] })));
+    expect(request.messages).toEqual([{ role: 'user', content: 'Grüße' }]);
+  });
+});
+
+describe('toChatApiError', () => {
+  const upstream = (status: number, headers?: Record<string, string>) =>
+    Object.assign(new Error(`Upstream ${status}`), { status, headers });
+
+  const cases: { name: string; error: unknown; code: ChatErrorCode; retryAfter?: number }[] = [
+    { name: '401', error: upstream(401), code: 'missing_api_key' },
+    { name: '403', error: upstream(403), code: 'missing_api_key' },
+    { name: '429 with Retry-After', error: upstream(429, { 'retry-after': '12' }), code: 'rate_limited', retryAfter: 12 },
+    { name: '429 without Retry-After', error: upstream(429), code: 'rate_limited' },
+    { name: '429 with a date in Retry-After', error: upstream(429, { 'retry-after': 'Wed, 21 Oct 2026 07:28:00 GMT' }), code: 'rate_limited' },
+    { name: '500', error: upstream(500), code: 'upstream_error' },
+    { name: '502', error: upstream(502), code: 'upstream_error' },
+    { name: '503', error: upstream(503), code: 'upstream_error' },
+    { name: '413', error: upstream(413), code: 'payload_too_large' },
+    { name: '422', error: upstream(422), code: 'bad_request' },
+    { name: 'a network failure', error: new TypeError('fetch failed'), code: 'upstream_error' },
+    { name: 'any other error', error: new Error('boom'), code: 'internal_error' }
+  ];
+
+  it.each(cases)('maps $name to $code', ({ error, code, retryAfter }) => {
+    const apiError = toChatApiError(error);
+    expect(apiError.code).toBe(code);
+    expect(apiError.retryAfter).toBe(retryAfter);
+  });
+
+  it('keeps a ChatApiError as it is', () => {
+    const error = new ChatApiError('rate_limited', 'Slow down', 3);
+    expect(toChatApiError(error)).toBe(error);
+  });
+
+  it('gives each code its status', () => {
+    expect(toChatApiError(upstream(429)).status).toBe(429);
+    expect(toChatApiError(upstream(401)).status).toBe(503);
+    expect(toChatApiError(upstream(500)).status).toBe(502);
+  });
+});
+
+describe('readChatApiError', () => {
+  it('reads the code, message and retryAfter of an error body', async () => {
+    const response = Response.json(new ChatApiError('rate_limited', 'Slow down', 7).toBody(), { status: 429 });
+    const error = await readChatApiError(response);
+    expect(error).toMatchObject({ code: 'rate_limited', message: 'Slow down', retryAfter: 7 });
+  });
+
+  it('falls back to the status for a body that is not JSON', async () => {
+    const error = await readChatApiError(new Response('<html>Bad gateway</html>', { status: 502 }));
+    expect(error).toMatchObject({ code: 'upstream_error', message: 'The chat request failed (502)' });
+  });
+
+  it('uses internal_error for statuses without a code', async () => {
+    const error = await readChatApiError(new Response('Not found', { status: 404 }));
+    expect(error.code).toBe('internal_error');
+  });
+
+  it('ignores an error body with an unknown code', async () => {
+    const error = await readChatApiError(Response.json({ error: { code: 'teapot', message: 'Short and stout' } }, { status: 400 }));
+    expect(error).toMatchObject({ code: 'bad_request', message: 'The chat request failed (400)' });
+  });
+});
@@ -0,0 +1,287 @@
+import { ContextImage, parseContextImages } from './chatContext';
+import { ContextSource, parseContextSources } from './citations';
+import type { ProviderId } from './providers';
+
+// The contract of /api/chat, shared by the route and the sidebar. POST takes a
+// ChatApiRequest and answers with a stream of ChatStreamEvents; failures before
+// the stream starts are JSON ChatApiErrorBody responses with a matching status.
+
+export const CHAT_LIMITS = {
+  // Whole request body, images included
+  maxBodyBytes: 16 * 1024 * 1024,
+  maxMessages: 100,
+  maxMessageChars: 20000,
+  maxSources: 200,
+  maxSourceChars: 20000,
+  maxImages: 4,
+  // Decoded size of one image
+  maxImageBytes: 4 * 1024 * 1024,
+  // Longest answer a request may ask for
+  maxTokens: 8192,
+};
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export interface ChatApiMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatApiRequest {
+  messages: ChatApiMessage[];
+  sources: ContextSource[];
+  images: ContextImage[];
+  // Checked against the providers by the route
+  provider?: string;
+  model?: string;
+  // Longest answer, in tokens; the provider's default when absent
+  maxTokens?: number;
+  // Offer canvas tools to the model; off for plain answers
+  canvasActions: boolean;
+}
+
+// Answer to GET: the provider and model used when a request names none
+export interface ChatProviderInfo {
+  provider: ProviderId;
+  model: string;
+  supportsImages: boolean;
+  supportsTools: boolean;
+  configured: boolean;
+  // Providers the server can use, for picking one per request
+  providers?: { id: ProviderId; label: string; model: string; configured: boolean }[];
+}
+
+export type ChatErrorCode =
+  | 'bad_request'
+  | 'payload_too_large'
+  | 'missing_api_key'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'internal_error';
+
+export interface ChatApiErrorBody {
+  error: {
+    code: ChatErrorCode;
+    message: string;
+    // Seconds to wait before retrying, for rate limits
+    retryAfter?: number;
+  };
+}
+
+const ERROR_STATUS: Record<ChatErrorCode, number> = {
+  bad_request: 400,
+  payload_too_large: 413,
+  missing_api_key: 503,
+  rate_limited: 429,
+  upstream_error: 502,
+  internal_error: 500,
+};
+
+export class ChatApiError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string,
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ChatApiError';
+  }
+
+  get status() {
+    return ERROR_STATUS[this.code];
+  }
+
+  toBody(): ChatApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.retryAfter !== undefined ? { retryAfter: this.retryAfter } : {})
+      }
+    };
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const badRequest = (message: string) => new ChatApiError('bad_request', message);
+
+const parseMessages = (value: unknown): ChatApiMessage[] => {
+  if (!Array.isArray(value) || value.length === 0) throw badRequest('messages must be a non-empty array.');
+  if (value.length > CHAT_LIMITS.maxMessages) {
+    throw new ChatApiError('payload_too_large', `At most ${CHAT_LIMITS.maxMessages} messages can be sent.`);
+  }
+  return value.map((message, i) => {
+    if (!isObject(message) || (message.role !== 'user' && message.role !== 'assistant')) {
+      throw badRequest(`messages[${i}].role must be "user" or "assistant".`);
+    }
+    if (typeof message.content !== 'string') throw badRequest(`messages[${i}].content must be a string.`);
+    if (message.content.length > CHAT_LIMITS.maxMessageChars) {
+      throw new ChatApiError('payload_too_large', `messages[${i}] is longer than ${CHAT_LIMITS.maxMessageChars} characters.`);
+    }
+    return { role: message.role, content: message.content };
+  });
+};
+
+const parseSources = (value: unknown): ContextSource[] => {
+  if (value === undefined) return [];
+  const sources = parseContextSources(value);
+  if (!Array.isArray(value) || sources.length !== value.length) throw badRequest('sources contains malformed entries.');
+  if (sources.length > CHAT_LIMITS.maxSources) {
+    throw new ChatApiError('payload_too_large', `At most ${CHAT_LIMITS.maxSources} sources can be sent.`);
+  }
+  if (sources.some(source => source.text.length > CHAT_LIMITS.maxSourceChars)) {
+    throw new ChatApiError('payload_too_large', `Sources must be shorter than ${CHAT_LIMITS.maxSourceChars} characters.`);
+  }
+  return sources;
+};
+
+// Decoded size of a base64 data URL
+const getDataUrlBytes = (src: string) => {
+  const data = src.slice(src.indexOf(',') + 1);
+  return Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+};
+
+const parseImages = (value: unknown): ContextImage[] => {
+  if (value === undefined) return [];
+  const images = parseContextImages(value);
+  if (!Array.isArray(value) || images.length !== value.length) throw badRequest('images contains malformed entries.');
+  if (images.length > CHAT_LIMITS.maxImages) {
+    throw new ChatApiError('payload_too_large', `At most ${CHAT_LIMITS.maxImages} images can be sent.`);
+  }
+  images.forEach((image, i) => {
+    const type = image.src.slice('data:'.length, image.src.indexOf(';'));
+    if (!IMAGE_TYPES.includes(type) || !image.src.includes(';base64,')) {
+      throw badRequest(`images[${i}] must be a base64 PNG, JPEG, WebP or GIF data URL.`);
+    }
+    if (getDataUrlBytes(image.src) > CHAT_LIMITS.maxImageBytes) {
+      throw new ChatApiError('payload_too_large', `images[${i}] is larger than ${CHAT_LIMITS.maxImageBytes / 1024 / 1024} MB.`);
+    }
+  });
+  return images;
+};
+
+// Validate a request body. `base64Image` is the single screenshot older clients send.
+export const parseChatRequest = (value: unknown): ChatApiRequest => {
+  if (!isObject(value)) throw badRequest('The request body must be a JSON object.');
+  if (value.provider !== undefined && typeof value.provider !== 'string') {
+    throw badRequest('provider must be a string.');
+  }
+  if (value.model !== undefined && (typeof value.model !== 'string' || !value.model.trim())) {
+    throw badRequest('model must be a non-empty string.');
+  }
+  if (
+    value.maxTokens !== undefined
+    && (
+      typeof value.maxTokens !== 'number'
+      || !Number.isInteger(value.maxTokens)
+      || value.maxTokens < 1
+      || value.maxTokens > CHAT_LIMITS.maxTokens
+    )
+  ) {
+    throw badRequest(`maxTokens must be an integer from 1 to ${CHAT_LIMITS.maxTokens}.`);
+  }
+  if (value.canvasActions !== undefined && typeof value.canvasActions !== 'boolean') {
+    throw badRequest('canvasActions must be a boolean.');
+  }
+  if (value.base64Image != null && typeof value.base64Image !== 'string') {
+    throw badRequest('base64Image must be a string.');
+  }
+
+  return {
+    messages: parseMessages(value.messages),
+    sources: parseSources(value.sources),
+    images: parseImages(value.images ?? (value.base64Image ? [{ src: value.base64Image, refs: [] }] : undefined)),
+    provider: value.provider,
+    model: value.model,
+    maxTokens: value.maxTokens,
+    canvasActions: value.canvasActions !== false
+  };
+};
+
+// Read and validate a request, enforcing the body size limit before parsing
+export const readChatRequest = async (request: Request): Promise<ChatApiRequest> => {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > CHAT_LIMITS.maxBodyBytes) {
+    throw new ChatApiError('payload_too_large', `The request is larger than ${CHAT_LIMITS.maxBodyBytes / 1024 / 1024} MB.`);
+  }
+  // The declared length can be missing or wrong; measure the bytes actually sent
+  const bytes = await request.arrayBuffer();
+  if (bytes.byteLength > CHAT_LIMITS.maxBodyBytes) {
+    throw new ChatApiError('payload_too_large', `The request is larger than ${CHAT_LIMITS.maxBodyBytes / 1024 / 1024} MB.`);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw badRequest('The request body is not valid JSON.');
+  }
+  return parseChatRequest(body);
+};
+
+// Classify provider SDK errors, which carry the upstream HTTP status
+export const toChatApiError = (error: unknown): ChatApiError => {
+  if (error instanceof ChatApiError) return error;
+  const err = error as { status?: number; message?: string; headers?: Record<string, string | null | undefined> };
+  const message = err?.message || 'The model provider failed';
+  if (err?.status === 429) {
+    const retryAfter = Number(err.headers?.['retry-after']);
+    return new ChatApiError('rate_limited', message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+  }
+  if (err?.status === 401 || err?.status === 403) return new ChatApiError('missing_api_key', message);
+  if (err?.status === 413) return new ChatApiError('payload_too_large', message);
+  if (err?.status === 400 || err?.status === 422) return new ChatApiError('bad_request', message);
+  if (typeof err?.status === 'number' || /fetch|network|ECONN|ETIMEDOUT|socket/i.test(message)) {
+    return new ChatApiError('upstream_error', message);
+  }
+  return new ChatApiError('internal_error', message);
+};
+
+export const isChatErrorCode = (value: unknown): value is ChatErrorCode =>
+  typeof value === 'string' && value in ERROR_STATUS;
+
+// Turn a failed response into a ChatApiError, also for bodies that are not JSON
+export const readChatApiError = async (response: Response): Promise<ChatApiError> => {
+  const body = await response.json().catch(() => null);
+  const error = isObject(body) && isObject(body.error) ? body.error : null;
+  if (error && isChatErrorCode(error.code) && typeof error.message === 'string') {
+    return new ChatApiError(error.code, error.message, typeof error.retryAfter === 'number' ? error.retryAfter : undefined);
+  }
+  const code = (Object.keys(ERROR_STATUS) as ChatErrorCode[]).find(key => ERROR_STATUS[key] === response.status);
+  return new ChatApiError(code || 'internal_error', `The chat request failed (${response.status})`);
+};
+
+// What the sidebar tells the user for each error, and whether retrying can help
+export const CHAT_ERROR_HELP: Record<ChatErrorCode, { title: string; hint: string; retryable: boolean }> = {
+  bad_request: {
+    title: 'The request was rejected',
+    hint: 'Try rephrasing the question or starting a new conversation.',
+    retryable: false
+  },
+  payload_too_large: {
+    title: 'Too much context',
+    hint: 'Ask about fewer shapes, or start a new conversation to drop the history.',
+    retryable: false
+  },
+  missing_api_key: {
+    title: 'The chat provider is not set up',
+    hint: 'Set the API key for the provider on the server (see the README), or under Chat connection when chatting from the browser, then retry.',
+    retryable: true
+  },
+  rate_limited: {
+    title: 'Rate limited by the provider',
+    hint: 'Wait a moment, then retry.',
+    retryable: true
+  },
+  upstream_error: {
+    title: 'The model provider failed',
+    hint: 'The provider may be down or unreachable. Retry in a moment.',
+    retryable: true
+  },
+  internal_error: {
+    title: 'Something went wrong',
+    hint: 'Retry; if it keeps failing, check the server logs.',
+    retryable: true
+  },
+};
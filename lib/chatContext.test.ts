@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatContext, ContextCandidate, getContextTokenBudget } from './chatContext';
+
+// Text of a given token estimate once the per-source overhead (12 tokens) is added
+const textOfTokens = (word: string, tokens: number) => word.repeat(tokens * 4).slice(0, (tokens - 12) * 4);
+
+const candidate = (ref: string, text: string, extra: Partial<ContextCandidate> = {}): ContextCandidate => ({
+  ref,
+  text,
+  shapeIds: [`shape:${ref}`],
+  ...extra
+});
+
+const includedRefs = (candidates: ContextCandidate[], options: Parameters<typeof buildChatContext>[1] = {}) =>
+  buildChatContext(candidates, options).sources.map(source => source.ref);
+
+describe('getContextTokenBudget', () => {
+  it.each([
+    { model: null, budget: 2000 },
+    { model: 'some-unknown-model', budget: 2000 },
+    { model: 'gemma-2-9b-it', budget: 2000 },
+    { model: 'llama3:8b', budget: 2000 },
+    { model: 'qwen-2.5-72b', budget: 8000 },
+    { model: 'mistralai/mixtral-8x7b', budget: 8000 },
+    // A quarter of the window, capped at 12000
+    { model: 'openai/gpt-4o-mini', budget: 12000 },
+    { model: 'meta-llama/llama-3.1-70b', budget: 12000 },
+    { model: 'anthropic/claude-3.5-sonnet', budget: 12000 },
+    { model: 'google/gemini-1.5-pro', budget: 12000 }
+  ])('gives $model a budget of $budget tokens', ({ model, budget }) => {
+    expect(getContextTokenBudget(model)).toBe(budget);
+  });
+
+  it('stays between 1000 and 12000 tokens', () => {
+    ['', 'x', 'gpt-4o', 'gemma', 'qwen', 'claude'].forEach((model) => {
+      const budget = getContextTokenBudget(model);
+      expect(budget).toBeGreaterThanOrEqual(1000);
+      expect(budget).toBeLessThanOrEqual(12000);
+    });
+  });
+});
+
+describe('buildChatContext', () => {
+  it.each([
+    {
+      name: 'includes a source that fills the budget exactly',
+      candidates: [candidate('a', textOfTokens('alpha ', 100)), candidate('b', 'beta')],
+      budget: 100,
+      expected: ['a']
+    },
+    {
+      name: 'still fits later, shorter sources',
+      candidates: [
+        candidate('a', textOfTokens('alpha ', 60)),
+        candidate('b', textOfTokens('beta ', 50)),
+        candidate('c', textOfTokens('gamma ', 40))
+      ],
+      budget: 100,
+      expected: ['a', 'c']
+    },
+    {
+      name: 'keeps a vector hit at the similarity floor',
+      candidates: [candidate('a', 'alpha', { similarity: 0.3 })],
+      expected: ['a']
+    },
+    {
+      name: 'drops a vector hit just below the floor',
+      candidates: [candidate('a', 'alpha', { similarity: 0.29 })],
+      expected: []
+    },
+    {
+      name: 'keeps a low similarity hit that keyword search found',
+      candidates: [candidate('a', 'alpha', { similarity: 0.1, keywordScore: 2.5 })],
+      expected: ['a']
+    },
+    {
+      name: 'keeps sources without scores, like a selection',
+      candidates: [candidate('a', 'alpha'), candidate('b', 'beta')],
+      expected: ['a', 'b']
+    },
+    {
+      name: 'applies a custom floor',
+      candidates: [candidate('a', 'alpha', { similarity: 0.5 }), candidate('b', 'beta', { similarity: 0.7 })],
+      minSimilarity: 0.6,
+      expected: ['b']
+    },
+    {
+      name: 'drops a cluster sharing shapes with an included one',
+      candidates: [candidate('a', 'alpha beta', { shapeIds: ['shape:1', 'shape:2'] }), candidate('b', 'gamma', { shapeIds: ['shape:2'] })],
+      expected: ['a']
+    },
+    {
+      name: 'drops a source whose words all appear in an included one',
+      candidates: [candidate('a', 'Launch plan for May'), candidate('b', 'launch PLAN')],
+      expected: ['a']
+    },
+    {
+      name: 'drops a source that mostly shares its words',
+      candidates: [
+        candidate('a', 'one two three four five six seven eight nine'),
+        candidate('b', 'one two three four five six seven eight nine ten')
+      ],
+      expected: ['a']
+    },
+    {
+      name: 'keeps sources with a few words in common',
+      candidates: [candidate('a', 'launch plan for May'), candidate('b', 'hiring plan for June')],
+      expected: ['a', 'b']
+    },
+    {
+      name: 'skips sources without text',
+      candidates: [candidate('a', '  \n '), candidate('b', 'beta')],
+      expected: ['b']
+    }
+  ])('$name', ({ candidates, budget, minSimilarity, expected }) => {
+    expect(includedRefs(candidates, { tokenBudget: budget, minSimilarity })).toEqual(expected);
+  });
+
+  it('cuts down the best source when it alone is over the budget', () => {
+    const { sources, summary } = buildChatContext([candidate('a', textOfTokens('alpha ', 500))], { tokenBudget: 100 });
+    expect(sources[0].text.endsWith('…')).toBe(true);
+    expect(sources[0].text.length).toBeLessThanOrEqual((100 - 12) * 4);
+    expect(summary.tokens).toBe(100);
+  });
+
+  it('records why sources were left out, with a title and short snippet only', () => {
+    const longTitle = 'A very long first line that goes on well past the title length limit';
+    const { summary } = buildChatContext([
+      candidate('a', textOfTokens('alpha ', 90)),
+      candidate('b', `${longTitle}\n${'more text '.repeat(40)}`),
+      candidate('c', 'alpha', { similarity: 0.1 }),
+      candidate('d', 'alpha alpha')
+    ], { tokenBudget: 100 });
+
+    expect(summary.excluded.map(({ ref, reason }) => ({ ref, reason }))).toEqual([
+      { ref: 'b', reason: 'budget' },
+      { ref: 'c', reason: 'below-floor' },
+      { ref: 'd', reason: 'duplicate' }
+    ]);
+    const [budget, floor] = summary.excluded;
+    expect(budget.title).toHaveLength(60);
+    expect(budget.title.endsWith('…')).toBe(true);
+    expect(budget.snippet.length).toBeLessThanOrEqual(141);
+    expect(budget.snippet.startsWith('more text')).toBe(true);
+    expect(floor).toEqual({ ref: 'c', title: 'alpha', snippet: '', reason: 'below-floor' });
+    expect(summary.excluded.every(entry => !('text' in entry))).toBe(true);
+  });
+
+  it('marks sources within 400px on the same page as neighbours', () => {
+    const box = (x: number) => ({ x, y: 0, w: 100, h: 100 });
+    const { sources } = buildChatContext([
+      candidate('a', 'alpha', { pageId: 'page:1', bounds: box(0) }),
+      candidate('b', 'beta', { pageId: 'page:1', bounds: box(500) }),
+      candidate('c', 'gamma', { pageId: 'page:1', bounds: box(1001) }),
+      candidate('d', 'delta', { pageId: 'page:2', bounds: box(0) })
+    ]);
+
+    expect(Object.fromEntries(sources.map(source => [source.ref, source.near]))).toEqual({
+      a: ['b'],
+      b: ['a'],
+      c: undefined,
+      d: undefined
+    });
+  });
+
+  it('names pages only when the context spans several', () => {
+    const onePage = buildChatContext([
+      candidate('a', 'alpha', { pageId: 'page:1', pageName: 'Plans' }),
+      candidate('b', 'beta', { pageId: 'page:1', pageName: 'Plans' })
+    ]);
+    expect(onePage.sources.map(source => source.page)).toEqual([undefined, undefined]);
+
+    const twoPages = buildChatContext([
+      candidate('a', 'alpha', { pageId: 'page:1', pageName: 'Plans' }),
+      candidate('b', 'beta', { pageId: 'page:2', pageName: 'Hiring' })
+    ]);
+    expect(twoPages.sources.map(source => source.page)).toEqual(['Plans', 'Hiring']);
+  });
+
+  it('reports the model, budget and tokens used', () => {
+    const { summary } = buildChatContext([candidate('a', 'alpha', { similarity: 0.8 })], { model: 'gpt-4o' });
+    expect(summary).toMatchObject({
+      model: 'gpt-4o',
+      budget: 12000,
+      tokens: 14,
+      included: [{ ref: 'a', text: 'alpha', tokens: 14, similarity: 0.8, near: [] }]
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import type { ContextSource } from './citations';
+import { boundsGap, ClusterBounds } from './clustering';
+import { tokenize } from './keywordIndex';
+import { buildSnippet } from './snippet';
+
+// Assembles the whiteboard context sent with a chat question. Retrieved hits are
+// taken in rank order; hits below the similarity floor and repeats of text already
+// included are dropped, and sources are added until the model's token budget is
+// spent. Sources that sit close together on the board are marked as neighbours.
+
+export interface ContextCandidate extends ContextSource {
+  pageId?: string;
+  pageName?: string;
+  bounds?: ClusterBounds | null;
+  // Scores from the search; sources without them (e.g. a selection) always qualify
+  similarity?: number | null;
+  keywordScore?: number | null;
+}
+
+export type ContextExclusionReason = 'below-floor' | 'duplicate' | 'budget';
+
+// What was sent and what was left out, kept on the answer for inspection
+export interface ChatContextSummary {
+  model: string | null;
+  budget: number;
+  tokens: number;
+  included: { ref: string; text: string; tokens: number; similarity: number | null; near: string[] }[];
+  // Left out hits keep only their first line and a short excerpt of the rest
+  excluded: { ref: string; title: string; snippet: string; reason: ContextExclusionReason }[];
+}
+
+// A screenshot sent with a question, and the refs of the sources it shows
+export interface ContextImage {
+  src: string;
+  refs: string[];
+}
+
+// Request bodies come from the client; keep only image data URLs
+export const parseContextImages = (value: unknown): ContextImage[] =>
+  Array.isArray(value)
+    ? value.filter((image): image is ContextImage =>
+      typeof image?.src === 'string'
+      && image.src.startsWith('data:image/')
+      && Array.isArray(image?.refs)
+      && image.refs.every((ref: unknown) => typeof ref === 'string')
+    )
+    : [];
+
+export interface ChatContextOptions {
+  model?: string | null;
+  tokenBudget?: number;
+  minSimilarity?: number;
+}
+
+// Context windows of common models, matched against the model id
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gemini/i, 1000000],
+  [/claude/i, 200000],
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo|(^|\/)o[134]\b/i, 128000],
+  [/llama-?3\.[1-3]|llama-?4/i, 128000],
+  [/qwen|deepseek/i, 32000],
+  [/mixtral|mistral/i, 32000],
+  [/gemma|llama-?3\b|llama3:/i, 8000],
+];
+const DEFAULT_CONTEXT_WINDOW = 8000;
+// Share of the window the board context may use; the rest is left for the
+// instructions, the conversation and the answer
+const CONTEXT_SHARE = 0.25;
+const MIN_CONTEXT_TOKENS = 1000;
+const MAX_CONTEXT_TOKENS = 12000;
+
+export const DEFAULT_CONTEXT_MIN_SIMILARITY = 0.3;
+// Sources whose bounds are this close (page pixels) are marked as neighbours
+const NEAR_DISTANCE = 400;
+// Sources whose word sets overlap this much repeat each other
+const DUPLICATE_OVERLAP = 0.8;
+// Ref, page and neighbour annotations of a source in the prompt
+const SOURCE_OVERHEAD_TOKENS = 12;
+
+export const getContextTokenBudget = (model?: string | null) => {
+  const contextWindow = (model && CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1])
+    || DEFAULT_CONTEXT_WINDOW;
+  return Math.min(MAX_CONTEXT_TOKENS, Math.max(MIN_CONTEXT_TOKENS, Math.floor(contextWindow * CONTEXT_SHARE)));
+};
+
+// Rough count for English text; no tokenizer is shipped to the browser
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// A source whose words all appear in another, or that mostly shares its words
+const isRepeat = (words: Set<string>, other: Set<string>) => {
+  if (words.size === 0) return false;
+  const shared = Array.from(words).filter(word => other.has(word)).length;
+  const union = words.size + other.size - shared;
+  return shared === words.size || shared / union >= DUPLICATE_OVERLAP;
+};
+
+const EXCLUDED_TITLE_LENGTH = 60;
+const EXCLUDED_SNIPPET_LENGTH = 140;
+
+const describeExcluded = (text: string) => {
+  const [firstLine, ...rest] = text.trim().split('\n');
+  const title = firstLine.trim();
+  return {
+    title: title.length > EXCLUDED_TITLE_LENGTH ? `${title.slice(0, EXCLUDED_TITLE_LENGTH - 1)}…` : title,
+    snippet: rest.length > 0 ? buildSnippet(rest.join(' '), [], EXCLUDED_SNIPPET_LENGTH)[0].text : ''
+  };
+};
+
+export const buildChatContext = (
+  candidates: ContextCandidate[],
+  { model = null, tokenBudget = getContextTokenBudget(model), minSimilarity = DEFAULT_CONTEXT_MIN_SIMILARITY }: ChatContextOptions = {}
+): { sources: ContextSource[]; summary: ChatContextSummary } => {
+  const included: (ContextCandidate & { tokens: number; words: Set<string> })[] = [];
+  const excluded: ChatContextSummary['excluded'] = [];
+  const seenShapeIds = new Set<string>();
+  let tokens = 0;
+
+  for (const candidate of candidates) {
+    const text = candidate.text.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    const exclude = (reason: ContextExclusionReason) =>
+      excluded.push({ ref: candidate.ref, ...describeExcluded(candidate.text), reason });
+
+    const vectorOnly = candidate.keywordScore == null && candidate.similarity != null;
+    if (vectorOnly && candidate.similarity! < minSimilarity) {
+      exclude('below-floor');
+      continue;
+    }
+
+    // Overlapping clusters share shapes; near-identical notes share words
+    const words = new Set(tokenize(text));
+    if (
+      candidate.shapeIds.some(id => seenShapeIds.has(id))
+      || included.some(source => isRepeat(words, source.words))
+    ) {
+      exclude('duplicate');
+      continue;
+    }
+
+    // Later, shorter sources may still fit; the best source is cut down rather than dropped
+    let sourceText = text;
+    let sourceTokens = estimateTokens(text) + SOURCE_OVERHEAD_TOKENS;
+    if (tokens + sourceTokens > tokenBudget) {
+      if (included.length > 0) {
+        exclude('budget');
+        continue;
+      }
+      sourceText = `${text.slice(0, Math.max(0, (tokenBudget - SOURCE_OVERHEAD_TOKENS) * 4 - 1))}…`;
+      sourceTokens = tokenBudget;
+    }
+
+    candidate.shapeIds.forEach(id => seenShapeIds.add(id));
+    included.push({ ...candidate, text: sourceText, tokens: sourceTokens, words });
+    tokens += sourceTokens;
+  }
+
+  // Page names only help when the context spans pages
+  const multiplePages = new Set(included.map(source => source.pageId)).size > 1;
+  const sources: ContextSource[] = included.map((source) => {
+    const near = included
+      .filter(other => other !== source
+        && other.pageId === source.pageId
+        && source.bounds && other.bounds
+        && boundsGap(source.bounds, other.bounds) <= NEAR_DISTANCE)
+      .map(other => other.ref);
+    return {
+      ref: source.ref,
+      text: source.text,
+      shapeIds: source.shapeIds,
+      ...(multiplePages && source.pageName ? { page: source.pageName } : {}),
+      ...(near.length > 0 ? { near } : {})
+    };
+  });
+
+  return {
+    sources,
+    summary: {
+      model,
+      budget: tokenBudget,
+      tokens,
+      included: sources.map((source, i) => ({
+        ref: source.ref,
+        text: source.text,
+        tokens: included[i].tokens,
+        similarity: included[i].similarity ?? null,
+        near: source.near || []
+      })),
+      excluded
+    }
+  };
+};
@@ -0,0 +1,70 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { CANVAS_TOOL_INSTRUCTIONS, parseCanvasToolCall } from './canvasTools';
+import type { ChatApiRequest } from './chatApi';
+import type { ChatStreamEvent } from './chatStream';
+import { CITATION_INSTRUCTIONS, extractCitations, formatSourcesForPrompt } from './citations';
+import type { ToolCallRequest } from './providers';
+
+// The prompt for a chat request and the events that follow the answer, shared by
+// /api/chat and the browser-direct chat so both ask the model the same way.
+
+export interface ChatPromptOptions {
+  // Send the screenshots as image_url parts
+  supportsImages: boolean;
+  // Offer the canvas tools and show the model the shape ids they take
+  useTools: boolean;
+}
+
+export const buildChatPrompt = (
+  { messages, sources, images }: Pick<ChatApiRequest, 'messages' | 'sources' | 'images'>,
+  { supportsImages, useTools }: ChatPromptOptions
+): ChatCompletionMessageParam[] => {
+  const searchContext = formatSourcesForPrompt(sources, { withShapeIds: useTools });
+  const toolInstructions = useTools ? ` ${CANVAS_TOOL_INSTRUCTIONS}` : '';
+
+  const formattedMessages: ChatCompletionMessageParam[] = [];
+
+  // Add system message and search context
+  formattedMessages.push({
+    role: "user",
+    content: `You are an AI assistant helping to analyze and discuss content from a whiteboard. The user's query is related to the following content found on the whiteboard, make sense of it and assume that this part is just text extracted from the whiteboard - ignore gibberish and do not mention how many times something occurs or describe the context:\n\n${searchContext}\n\n${CITATION_INSTRUCTIONS}${toolInstructions} Do not respond with any formatting or markdown.`
+  });
+
+  // Add conversation history
+  formattedMessages.push(...messages);
+  // Add images if available and the provider can read them
+  if (images.length > 0 && supportsImages) {
+    formattedMessages.push({
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: (images.length === 1
+            ? "Here is the relevant section of the whiteboard:\n\n"
+            : `Here are ${images.length} relevant sections of the whiteboard, in order:\n\n`) + searchContext
+        },
+        ...images.flatMap((image, i) => [
+          ...(image.refs.length > 0
+            ? [{ type: "text" as const, text: `Section ${i + 1} shows ${image.refs.map(ref => `[#${ref}]`).join(', ')}.` }]
+            : []),
+          { type: "image_url" as const, image_url: { url: image.src } }
+        ])
+      ]
+    });
+  }
+
+  return formattedMessages;
+};
+
+// Citations of the finished answer, and the canvas edits the model asked for;
+// the client previews the edits before applying them
+export const getAnswerEvents = (
+  answer: string,
+  sources: ChatApiRequest['sources'],
+  toolCalls: ToolCallRequest[]
+): ChatStreamEvent[] => [
+  { type: 'citations', citations: extractCitations(answer, sources) },
+  ...(toolCalls.length > 0
+    ? [{ type: 'tool_calls' as const, calls: toolCalls.map(parseCanvasToolCall) }]
+    : [])
+];
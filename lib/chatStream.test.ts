@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatStreamEvent, createChatStream, readChatStream } from './chatStream';
+
+// Deltas from a local mock, optionally failing after some of them
+const mockDeltas = async function* (words: string[], failAfter?: number) {
+  for (let i = 0; i < words.length; i++) {
+    if (i === failAfter) throw new Error('Upstream went away');
+    yield words[i];
+  }
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(stream)) events.push(event);
+  return events;
+};
+
+describe('chat stream', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('streams the full answer, the final events and done', async () => {
+    const events = await readAll(createChatStream(
+      mockDeltas(['Hello ', 'board ', 'world']),
+      undefined,
+      (answer) => [{ type: 'citations', citations: [] }, { type: 'delta', content: `[${answer}]` }]
+    ));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Hello ' },
+      { type: 'delta', content: 'board ' },
+      { type: 'delta', content: 'world' },
+      { type: 'citations', citations: [] },
+      { type: 'delta', content: '[Hello board world]' },
+      { type: 'done' }
+    ]);
+  });
+
+  it('keeps the partial answer and ends with an error when the stream fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events = await readAll(createChatStream(mockDeltas(['Partial ', 'answer ', 'lost'], 2)));
+
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'delta', content: 'Partial ' },
+      { type: 'delta', content: 'answer ' }
+    ]);
+    expect(events).toHaveLength(3);
+    expect(events[2]).toMatchObject({ type: 'error', error: 'Upstream went away' });
+  });
+
+  it('calls onCancel when the reader cancels', async () => {
+    const onCancel = vi.fn();
+    // Never finishes on its own
+    const deltas = async function* () {
+      yield 'first';
+      await new Promise(() => {});
+    };
+    const stream = createChatStream(deltas(), onCancel);
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a stream that closes without done as an error', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: {"type":"delta","content":"cut"}\n\n'));
+        controller.close();
+      }
+    });
+
+    expect(await readAll(body)).toEqual([
+      { type: 'delta', content: 'cut' },
+      { type: 'error', error: 'Connection closed before the response finished', code: 'upstream_error' }
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+// Server-sent events used to stream chat completions from /api/chat to the sidebar.
+// Each event is a single `data:` line holding one JSON encoded ChatStreamEvent.
+
+import type { CanvasToolCall } from './canvasTools';
+import { ChatErrorCode, toChatApiError } from './chatApi';
+import type { Citation } from './citations';
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'tool_calls'; calls: CanvasToolCall[] }
+  | { type: 'error'; error: string; code?: ChatErrorCode; retryAfter?: number }
+  | { type: 'done' };
+
+const encoder = new TextEncoder();
+
+export const encodeChatStreamEvent = (event: ChatStreamEvent): Uint8Array =>
+  encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+
+export const CHAT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+// Wrap an async iterable of text deltas into an SSE body. Errors thrown by the
+// iterable are sent as an `error` event so the client can keep the partial answer.
+// `getFinalEvents` receives the complete answer and adds events before `done`.
+export const createChatStream = (
+  deltas: AsyncIterable<string>,
+  onCancel?: () => void,
+  getFinalEvents?: (answer: string) => ChatStreamEvent[]
+): ReadableStream<Uint8Array> =>
+  new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let answer = '';
+        for await (const content of deltas) {
+          if (content) {
+            answer += content;
+            controller.enqueue(encodeChatStreamEvent({ type: 'delta', content }));
+          }
+        }
+        getFinalEvents?.(answer).forEach(event => controller.enqueue(encodeChatStreamEvent(event)));
+        controller.enqueue(encodeChatStreamEvent({ type: 'done' }));
+      } catch (error: any) {
+        console.error('Chat stream error:', error);
+        // Upstream failures are classified like failures before the stream started
+        const { code, retryAfter } = toChatApiError(error);
+        controller.enqueue(encodeChatStreamEvent({
+          type: 'error',
+          error: error?.message || 'Stream interrupted',
+          code,
+          ...(retryAfter !== undefined ? { retryAfter } : {})
+        }));
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    },
+    cancel() {
+      onCancel?.();
+    }
+  });
+
+const isFinalEvent = (event: ChatStreamEvent) => event.type === 'done' || event.type === 'error';
+
+const parseEvent = (raw: string): ChatStreamEvent | null => {
+  const data = raw
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as ChatStreamEvent;
+  } catch {
+    return { type: 'error', error: 'Malformed stream event' };
+  }
+};
+
+// Parse an SSE response body back into ChatStreamEvents. A stream that ends
+// without a `done` or `error` event is reported as an error.
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+
+        if (event) {
+          yield event;
+          if (isFinalEvent(event)) {
+            finished = true;
+            break;
+          }
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (!finished) {
+      const event = parseEvent(buffer);
+      if (event) {
+        yield event;
+        finished = isFinalEvent(event);
+      }
+    }
+
+    if (!finished) {
+      yield { type: 'error', error: 'Connection closed before the response finished', code: 'upstream_error' };
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,145 @@
+import type { CanvasToolCall } from './canvasTools';
+import type { ChatErrorCode } from './chatApi';
+import type { ChatContextSummary, ContextImage } from './chatContext';
+import type { Citation } from './citations';
+import { deleteDatabase, openDatabase, requestToPromise, transactionDone } from './idb';
+import type { SelectionActionId } from './selectionActions';
+
+// Chat conversations, stored per board in IndexedDB next to the board's index.
+// Threads keep the screenshot and retrieved shapes of every answer, so an old
+// conversation can be resumed and inspected later.
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  isLoading?: boolean;
+  error?: string;
+  // Kind of failure, which decides the help shown and whether a retry is offered
+  errorCode?: ChatErrorCode;
+  // Seconds the provider asked to wait before retrying
+  retryAfter?: number;
+  stopped?: boolean;
+  // Selection action a user message ran, so a failed answer can run it again
+  selectionAction?: SelectionActionId;
+  // Shapes that were selected when the action ran, so a retry uses the same ones
+  selectionShapeIds?: string[];
+  // Screenshots sent with the question this answer replies to
+  screenshots?: ContextImage[];
+  // Single screenshot kept by threads saved before several could be sent
+  screenshot?: string | null;
+  // Shapes whose text was retrieved as context for this answer
+  retrievedShapeIds?: string[];
+  // The context sent with the question, and the hits left out of it
+  context?: ChatContextSummary;
+  // Sources the answer cited
+  citations?: Citation[];
+  // Board changes the assistant proposed, and whether the user applied them
+  canvasActions?: CanvasActionProposal;
+}
+
+export interface CanvasActionProposal {
+  calls: CanvasToolCall[];
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+const DB_NAME = 'arkeith-chat';
+const DB_VERSION = 1;
+const THREADS_STORE = 'threads';
+// Where chat history lived before threads, as one conversation per board
+const LEGACY_CHAT_KEY_PREFIX = 'arkeith-chat';
+
+const getChatDatabaseName = (boardId: string) => `${DB_NAME}:${boardId}`;
+
+const openChatDatabase = (boardId: string) =>
+  openDatabase(getChatDatabaseName(boardId), DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(THREADS_STORE)) {
+      db.createObjectStore(THREADS_STORE, { keyPath: 'id' });
+    }
+  });
+
+export const createThreadId = () =>
+  `thread-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const THREAD_TITLE_LENGTH = 40;
+
+// Default title: the start of the first question
+export const getDefaultThreadTitle = (messages: ChatMessage[]) => {
+  const first = messages.find(msg => msg.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > THREAD_TITLE_LENGTH ? `${first.slice(0, THREAD_TITLE_LENGTH - 1)}…` : first;
+};
+
+// Messages as they are persisted, without transient streaming state
+export const toStoredMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages
+    .filter(msg => !msg.isLoading)
+    .map(({ isLoading, ...msg }) => msg);
+
+export const saveThreads = async (boardId: string, threads: ChatThread[]) => {
+  const db = await openChatDatabase(boardId);
+  const transaction = db.transaction(THREADS_STORE, 'readwrite');
+  threads.forEach(thread => transaction.objectStore(THREADS_STORE).put(thread));
+  await transactionDone(transaction);
+};
+
+// Move a pre-threads conversation from localStorage into its own thread
+const migrateLegacyChat = async (boardId: string): Promise<ChatThread | null> => {
+  const key = `${LEGACY_CHAT_KEY_PREFIX}:${boardId}`;
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  try {
+    const messages = toStoredMessages(JSON.parse(stored) as ChatMessage[]);
+    localStorage.removeItem(key);
+    if (messages.length === 0) return null;
+
+    const now = Date.now();
+    const thread: ChatThread = {
+      id: createThreadId(),
+      title: getDefaultThreadTitle(messages),
+      createdAt: now,
+      updatedAt: now,
+      messages
+    };
+    await saveThreads(boardId, [thread]);
+    return thread;
+  } catch (error) {
+    console.error('Failed to migrate chat history:', error);
+    return null;
+  }
+};
+
+// Threads of a board, most recently updated first
+export const loadThreads = async (boardId: string): Promise<ChatThread[]> => {
+  await migrateLegacyChat(boardId);
+  const db = await openChatDatabase(boardId);
+  const store = db.transaction(THREADS_STORE, 'readonly').objectStore(THREADS_STORE);
+  const threads = await requestToPromise(store.getAll() as IDBRequest<ChatThread[]>);
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveThread = (boardId: string, thread: ChatThread) => saveThreads(boardId, [thread]);
+
+export const deleteThread = async (boardId: string, threadId: string) => {
+  const db = await openChatDatabase(boardId);
+  const transaction = db.transaction(THREADS_STORE, 'readwrite');
+  transaction.objectStore(THREADS_STORE).delete(threadId);
+  await transactionDone(transaction);
+};
+
+export const copyThreads = async (fromBoardId: string, toBoardId: string) => {
+  const threads = await loadThreads(fromBoardId);
+  if (threads.length > 0) {
+    await saveThreads(toBoardId, threads);
+  }
+};
+
+export const deleteChatDatabase = (boardId: string) =>
+  deleteDatabase(getChatDatabaseName(boardId));
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ContextSource, extractCitations, formatSourcesForPrompt, getSourceRefs, parseContextSources, stripCitations } from './citations';
+
+const SOURCES: ContextSource[] = [
+  { ref: 'a1b2', text: 'Launch in May', shapeIds: ['shape:launch'] },
+  { ref: 'c3d4', text: 'The budget review happens every quarter with the finance team', shapeIds: ['shape:budget', 'shape:finance'] }
+];
+
+describe('getSourceRefs', () => {
+  it.each([
+    { name: 'uses four characters when they are unique', ids: ['cluster-a1b2c3d4', 'cluster-e5f6a7b8'], expected: ['a1b2', 'e5f6'] },
+    { name: 'lengthens refs that share four characters', ids: ['cluster-abcd1234', 'cluster-abcd5678'], expected: ['abcd1', 'abcd5'] },
+    { name: 'lengthens refs that share six characters', ids: ['cluster-abcdef12', 'cluster-abcdef34', 'cluster-ffff0000'], expected: ['abcdef1', 'abcdef3', 'ffff'] },
+    { name: 'only lengthens the refs that collide', ids: ['cluster-abcd1234', 'cluster-abce5678', 'cluster-abcd9999'], expected: ['abcd1', 'abce', 'abcd9'] },
+    { name: 'stops at the full hash when one is a prefix of another', ids: ['cluster-abcd', 'cluster-abcdef'], expected: ['abcd', 'abcde'] },
+    { name: 'keeps hashes shorter than four characters', ids: ['cluster-ab'], expected: ['ab'] },
+    { name: 'gives identical ids the same ref', ids: ['cluster-abcd1234', 'cluster-abcd1234'], expected: ['abcd', 'abcd'] },
+    { name: 'lowercases and drops the cluster prefix', ids: ['cluster-ABCD1234', 'shape-hash'], expected: ['abcd', 'shap'] }
+  ])('$name', ({ ids, expected }) => {
+    expect(getSourceRefs(ids)).toEqual(expected);
+  });
+
+  it('returns refs that are unique for distinct hashes', () => {
+    const ids = ['1234aaaa', '1234aaab', '1234aaba', '1234abaa', '1234baaa'].map(hash => `cluster-${hash}`);
+    const refs = getSourceRefs(ids);
+    expect(new Set(refs).size).toBe(ids.length);
+    refs.forEach((ref, i) => expect(ids[i].startsWith(`cluster-${ref}`)).toBe(true));
+  });
+});
+
+describe('extractCitations', () => {
+  const refsIn = (answer: string) => extractCitations(answer, SOURCES).map(citation => citation.ref);
+
+  it.each([
+    { name: 'a single citation', answer: 'Launch is in May [#a1b2].', expected: ['a1b2'] },
+    { name: 'grouped citations', answer: 'Both apply [#c3d4, #a1b2].', expected: ['c3d4', 'a1b2'] },
+    { name: 'refs in any case', answer: 'In May [#A1B2].', expected: ['a1b2'] },
+    { name: 'each ref once, in order of first appearance', answer: '[#c3d4] then [#a1b2] and [#c3d4] again', expected: ['c3d4', 'a1b2'] },
+    { name: 'no unknown refs', answer: 'Made up [#ffff] and real [#a1b2].', expected: ['a1b2'] },
+    { name: 'no markers without #', answer: 'See [a1b2] and [1].', expected: [] },
+    { name: 'no empty or malformed markers', answer: 'Odd [#] [# a1b2] [#a1b2 #c3d4] [#a1-b2]', expected: [] },
+    { name: 'no partial refs', answer: 'Close [#a1b] or longer [#a1b2c]', expected: [] },
+    { name: 'nothing from an answer without markers', answer: 'No sources used.', expected: [] }
+  ])('finds $name', ({ answer, expected }) => {
+    expect(refsIn(answer)).toEqual(expected);
+  });
+
+  it('labels a citation with the start of the source text and its shapes', () => {
+    expect(extractCitations('[#a1b2] [#c3d4]', SOURCES)).toEqual([
+      { ref: 'a1b2', label: 'Launch in May', shapeIds: ['shape:launch'] },
+      { ref: 'c3d4', label: 'The budget review happens every…', shapeIds: ['shape:budget', 'shape:finance'] }
+    ]);
+  });
+});
+
+describe('stripCitations', () => {
+  it.each([
+    { answer: 'Launch is in May [#a1b2].', expected: 'Launch is in May.' },
+    { answer: 'Budget [#c3d4, #a1b2], then launch [#a1b2]!', expected: 'Budget, then launch!' },
+    { answer: '[#a1b2] Launch in May', expected: 'Launch in May' },
+    { answer: 'Unknown refs [#ffff] go too.', expected: 'Unknown refs go too.' },
+    { answer: 'Other brackets [see note] and [1] stay.', expected: 'Other brackets [see note] and [1] stay.' }
+  ])('turns "$answer" into "$expected"', ({ answer, expected }) => {
+    expect(stripCitations(answer)).toBe(expected);
+  });
+});
+
+describe('parseContextSources', () => {
+  it('keeps only well-formed sources', () => {
+    const valid = { ref: 'a1b2', text: 'Launch', shapeIds: ['shape:1'], page: 'Plans', near: ['c3d4'] };
+    expect(parseContextSources([
+      valid,
+      { ref: 'c3d4', text: 'Budget', shapeIds: [] },
+      { ref: 1, text: 'Bad ref', shapeIds: [] },
+      { ref: 'e5f6', shapeIds: [] },
+      { ref: 'e5f6', text: 'Bad shapes', shapeIds: [1] },
+      { ref: 'e5f6', text: 'Bad page', shapeIds: [], page: 2 },
+      { ref: 'e5f6', text: 'Bad near', shapeIds: [], near: 'c3d4' },
+      null,
+      'a1b2'
+    ])).toEqual([valid, { ref: 'c3d4', text: 'Budget', shapeIds: [] }]);
+  });
+
+  it('returns nothing for a value that is not an array', () => {
+    expect(parseContextSources({ ref: 'a1b2', text: 'Launch', shapeIds: [] })).toEqual([]);
+  });
+});
+
+describe('formatSourcesForPrompt', () => {
+  it('tags each source with its ref and notes', () => {
+    expect(formatSourcesForPrompt([
+      { ...SOURCES[0], page: 'Plans', near: ['c3d4'] },
+      SOURCES[1]
+    ], { withShapeIds: true })).toBe(
+      '[#a1b2] (page: Plans; next to #c3d4; shapes: shape:launch) Launch in May\n\n'
+      + '[#c3d4] (shapes: shape:budget, shape:finance) The budget review happens every quarter with the finance team'
+    );
+  });
+});
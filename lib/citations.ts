@@ -0,0 +1,102 @@
+// Short references for retrieved whiteboard context. Each source gets a ref derived
+// from its cluster id, so the same cluster keeps its ref across turns and answers in
+// the history still point at the right shapes. The model cites refs as [#a1b2];
+// the route turns the refs found in the answer into structured citations.
+
+export interface ContextSource {
+  ref: string;
+  text: string;
+  shapeIds: string[];
+  // Page name, when the context spans several pages
+  page?: string;
+  // Refs of other sources placed next to this one on the board
+  near?: string[];
+}
+
+export interface Citation {
+  ref: string;
+  // Start of the cited text, shown on the chip
+  label: string;
+  shapeIds: string[];
+}
+
+const MIN_REF_LENGTH = 4;
+const LABEL_LENGTH = 32;
+
+// Shortest unique prefixes (at least MIN_REF_LENGTH characters) of the cluster hashes
+export const getSourceRefs = (clusterIds: string[]): string[] => {
+  const hashes = clusterIds.map(id => id.replace(/^cluster-/, '').toLowerCase());
+  return hashes.map((hash) => {
+    let length = Math.min(MIN_REF_LENGTH, hash.length);
+    while (
+      length < hash.length
+      && hashes.some(other => other !== hash && other.startsWith(hash.slice(0, length)))
+    ) {
+      length++;
+    }
+    return hash.slice(0, length);
+  });
+};
+
+// Shape ids are listed when the model can act on the shapes with canvas tools
+export const formatSourcesForPrompt = (sources: ContextSource[], { withShapeIds = false } = {}) =>
+  sources
+    .map((source) => {
+      const notes = [
+        source.page && `page: ${source.page}`,
+        source.near?.length && `next to ${source.near.map(ref => `#${ref}`).join(', ')}`,
+        withShapeIds && `shapes: ${source.shapeIds.join(', ')}`
+      ].filter(Boolean);
+      return notes.length > 0
+        ? `[#${source.ref}] (${notes.join('; ')}) ${source.text}`
+        : `[#${source.ref}] ${source.text}`;
+    })
+    .join('\n\n');
+
+export const CITATION_INSTRUCTIONS =
+  'Each piece of whiteboard content starts with a reference like [#a1b2]. When your answer uses a piece, cite it by putting its reference right after the statement, for example [#a1b2]. Only cite references that appear in the content. Pieces marked "next to" another are placed beside it on the board and usually belong together.';
+
+// Matches [#a1b2] and grouped citations like [#a1b2, #c3d4]
+const CITATION_PATTERN = /\[(#[0-9a-z]+(?:\s*,\s*#[0-9a-z]+)*)\]/gi;
+
+// Citations in order of first appearance, limited to refs that were sent
+export const extractCitations = (answer: string, sources: ContextSource[]): Citation[] => {
+  const byRef = new Map(sources.map(source => [source.ref, source]));
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+
+  for (const match of Array.from(answer.matchAll(CITATION_PATTERN))) {
+    for (const part of match[1].split(',')) {
+      const ref = part.trim().slice(1).toLowerCase();
+      const source = byRef.get(ref);
+      if (!source || seen.has(ref)) continue;
+      seen.add(ref);
+
+      const text = source.text.replace(/\s+/g, ' ').trim();
+      citations.push({
+        ref,
+        label: text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text,
+        shapeIds: source.shapeIds
+      });
+    }
+  }
+  return citations;
+};
+
+// The answer without its citation markers, for text placed on the board
+export const stripCitations = (answer: string) =>
+  answer.replace(CITATION_PATTERN, '').replace(/[ \t]+([.,;:!?])/g, '$1').replace(/[ \t]{2,}/g, ' ').trim();
+
+// Request bodies come from the client; keep only well-formed sources
+export const parseContextSources = (value: unknown): ContextSource[] =>
+  Array.isArray(value)
+    ? value.filter((source): source is ContextSource =>
+      typeof source?.ref === 'string'
+      && typeof source?.text === 'string'
+      && Array.isArray(source?.shapeIds)
+      && source.shapeIds.every((id: unknown) => typeof id === 'string')
+      && (source.page === undefined || typeof source.page === 'string')
+      && (source.near === undefined
+        || (Array.isArray(source.near) && source.near.every((ref: unknown) => typeof ref === 'string')))
+    )
+    : [];
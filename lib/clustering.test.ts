@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { ClusterLink, ClusterShape, clusterShapes, getClusterHull } from './clustering';
+
+const THRESHOLD = 200;
+
+// A 100x50 text shape on page 1, placed by its top left corner
+const shape = (id: string, x: number, y: number, extra: Partial<ClusterShape> = {}): ClusterShape => ({
+  id,
+  text: id,
+  type: 'text',
+  pageId: 'page:1',
+  bounds: { x, y, w: 100, h: 50 },
+  ...extra
+});
+
+// Cluster member ids, each cluster in reading order
+const groupIds = (shapes: ClusterShape[], links: ClusterLink[] = []) =>
+  clusterShapes(shapes, links, { threshold: THRESHOLD }).map(cluster => cluster.members.map(member => member.id));
+
+describe('clusterShapes', () => {
+  const cases: { name: string; shapes: ClusterShape[]; links?: ClusterLink[]; expected: string[][] }[] = [
+    {
+      name: 'joins shapes just under the threshold apart',
+      shapes: [shape('a', 0, 0), shape('b', 100 + THRESHOLD - 1, 0)],
+      expected: [['a', 'b']]
+    },
+    {
+      name: 'keeps shapes exactly the threshold apart separate',
+      shapes: [shape('a', 0, 0), shape('b', 100 + THRESHOLD, 0)],
+      expected: [['a'], ['b']]
+    },
+    {
+      name: 'measures diagonal gaps between corners',
+      // Gap of 150 on both axes is about 212, over the threshold
+      shapes: [shape('a', 0, 0), shape('b', 250, 200)],
+      expected: [['a'], ['b']]
+    },
+    {
+      name: 'chains shapes through a middle neighbour',
+      shapes: [shape('a', 0, 0), shape('b', 250, 0), shape('c', 500, 0)],
+      expected: [['a', 'b', 'c']]
+    },
+    {
+      name: 'scales the threshold by the larger text size',
+      shapes: [shape('a', 0, 0, { scale: 1.5 }), shape('b', 100 + 250, 0)],
+      expected: [['a', 'b']]
+    },
+    {
+      name: 'shrinks the threshold for small text',
+      shapes: [shape('a', 0, 0, { scale: 0.75 }), shape('b', 100 + 175, 0, { scale: 0.75 })],
+      expected: [['a'], ['b']]
+    },
+    {
+      name: 'joins a frame with its children however far apart',
+      shapes: [
+        shape('frame', 0, 0, { type: 'frame' }),
+        shape('inner', 2000, 0, { frameId: 'frame' }),
+        shape('inner2', 4000, 0, { frameId: 'frame' })
+      ],
+      expected: [['frame', 'inner', 'inner2']]
+    },
+    {
+      name: 'does not join across a frame border by proximity',
+      shapes: [shape('inside', 0, 0, { frameId: 'frame:x' }), shape('outside', 150, 0)],
+      expected: [['inside'], ['outside']]
+    },
+    {
+      name: 'joins arrow-connected shapes within the arrow reach',
+      shapes: [shape('a', 0, 0), shape('b', 100 + 700, 0)],
+      links: [['a', 'b']],
+      expected: [['a', 'b']]
+    },
+    {
+      name: 'keeps arrow-connected shapes beyond the arrow reach separate',
+      shapes: [shape('a', 0, 0), shape('b', 100 + 800, 0)],
+      links: [['a', 'b']],
+      expected: [['a'], ['b']]
+    },
+    {
+      name: 'never joins shapes on different pages',
+      shapes: [shape('a', 0, 0), shape('b', 0, 0, { pageId: 'page:2' })],
+      links: [['a', 'b']],
+      expected: [['a'], ['b']]
+    },
+    {
+      name: 'orders members top to bottom, then left to right',
+      shapes: [shape('low', 0, 100), shape('right', 150, 0), shape('left', 0, 0)],
+      expected: [['left', 'right', 'low']]
+    }
+  ];
+
+  it.each(cases)('$name', ({ shapes, links, expected }) => {
+    expect(groupIds(shapes, links)).toEqual(expected);
+  });
+
+  it('gives the same clusters for any input order', () => {
+    const shapes = [
+      shape('a', 0, 0),
+      shape('b', 250, 0),
+      shape('c', 2000, 0),
+      shape('d', 2000, 2000, { frameId: 'e' }),
+      shape('e', 1900, 1900, { type: 'frame' }),
+      shape('f', 0, 0, { pageId: 'page:2' }),
+      shape('g', 3000, 0)
+    ];
+    const links: ClusterLink[] = [['c', 'g']];
+    const expected = clusterShapes(shapes, links, { threshold: THRESHOLD });
+
+    // Fixed permutations, so a failure can be reproduced
+    [[6, 5, 4, 3, 2, 1, 0], [3, 0, 6, 1, 5, 2, 4], [1, 3, 5, 0, 2, 4, 6]].forEach((order) => {
+      const shuffled = order.map(i => shapes[i]);
+      expect(clusterShapes(shuffled, links, { threshold: THRESHOLD })).toEqual(expected);
+    });
+  });
+
+  it('reports the union of the member bounds', () => {
+    const [cluster] = clusterShapes([shape('a', 0, 0), shape('b', 150, 80)], [], { threshold: THRESHOLD });
+    expect(cluster.bounds).toEqual({ x: 0, y: 0, w: 250, h: 130 });
+  });
+});
+
+describe('getClusterHull', () => {
+  it('is the padded rectangle for a single shape', () => {
+    const [cluster] = clusterShapes([shape('a', 0, 0)], [], { threshold: THRESHOLD });
+    expect(getClusterHull(cluster, 10)).toEqual([
+      { x: -10, y: -10 },
+      { x: 110, y: -10 },
+      { x: 110, y: 60 },
+      { x: -10, y: 60 }
+    ]);
+  });
+
+  it('wraps offset shapes without the inner corners', () => {
+    const [cluster] = clusterShapes([shape('a', 0, 0), shape('b', 150, 100)], [], { threshold: THRESHOLD });
+    const hull = getClusterHull(cluster, 0);
+    expect(hull).toHaveLength(6);
+    expect(hull).not.toContainEqual({ x: 100, y: 50 });
+    expect(hull).not.toContainEqual({ x: 150, y: 100 });
+  });
+});
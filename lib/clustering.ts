@@ -0,0 +1,264 @@
+import type { Editor, TLShape, TLShapeId } from '@tldraw/tldraw';
+import type { ShapeTextData } from './shapeText';
+
+// Deterministic spatial clustering of text-bearing shapes. Shapes are grouped by
+// single linkage on the gap between their page bounds: two shapes join when the
+// gap is under the threshold, scaled by their text size. Frames and arrow
+// bindings are stronger signals than distance alone.
+
+export interface ClusterBounds {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface ClusterShape {
+  id: string;
+  text: string;
+  type: string;
+  pageId: string;
+  bounds: ClusterBounds;
+  // Nearest ancestor frame, if any
+  frameId?: string;
+  // Relative text size, 1 for the default medium size
+  scale?: number;
+}
+
+// Two shape ids connected by an arrow
+export type ClusterLink = [string, string];
+
+export interface ClusterOptions {
+  // Largest gap in page pixels between two default-sized shapes of one cluster
+  threshold: number;
+  // Arrow-connected shapes join across gaps up to threshold * arrowReach
+  arrowReach?: number;
+}
+
+export interface ShapeCluster {
+  // Members in reading order: top to bottom, then left to right
+  members: ClusterShape[];
+  bounds: ClusterBounds;
+  pageId: string;
+}
+
+const DEFAULT_ARROW_REACH = 4;
+
+export const boundsGap = (a: ClusterBounds, b: ClusterBounds): number => {
+  const dx = Math.max(0, a.x - (b.x + b.w), b.x - (a.x + a.w));
+  const dy = Math.max(0, a.y - (b.y + b.h), b.y - (a.y + a.h));
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const unionBounds = (bounds: ClusterBounds[]): ClusterBounds => {
+  const minX = Math.min(...bounds.map(b => b.x));
+  const minY = Math.min(...bounds.map(b => b.y));
+  const maxX = Math.max(...bounds.map(b => b.x + b.w));
+  const maxY = Math.max(...bounds.map(b => b.y + b.h));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+};
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const readingOrder = (a: ClusterShape, b: ClusterShape) =>
+  a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x || compareIds(a.id, b.id);
+
+// Union-find over shape indexes; the root is always the smallest index, which
+// keeps the result independent of the order unions happen in
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+  return { find, union };
+};
+
+export const clusterShapes = (
+  input: ClusterShape[],
+  links: ClusterLink[],
+  { threshold, arrowReach = DEFAULT_ARROW_REACH }: ClusterOptions
+): ShapeCluster[] => {
+  // Sort first so the result does not depend on the order shapes come in
+  const shapes = [...input].sort((a, b) => compareIds(a.id, b.id));
+  const indexById = new Map(shapes.map((shape, i) => [shape.id, i]));
+  const { find, union } = createUnionFind(shapes.length);
+
+  const pairThreshold = (a: ClusterShape, b: ClusterShape) =>
+    threshold * Math.max(a.scale ?? 1, b.scale ?? 1);
+
+  // Frames: a frame joins its children, and children of one frame join each other
+  shapes.forEach((shape, i) => {
+    if (!shape.frameId) return;
+    const frameIndex = indexById.get(shape.frameId);
+    if (frameIndex !== undefined) {
+      union(i, frameIndex);
+    }
+  });
+  const firstInFrame = new Map<string, number>();
+  shapes.forEach((shape, i) => {
+    if (!shape.frameId) return;
+    const first = firstInFrame.get(shape.frameId);
+    if (first === undefined) {
+      firstInFrame.set(shape.frameId, i);
+    } else {
+      union(first, i);
+    }
+  });
+
+  // The frame a shape belongs to for proximity purposes; a frame counts as inside itself
+  const container = (shape: ClusterShape) =>
+    shape.frameId ?? (shape.type === 'frame' ? shape.id : undefined);
+
+  // Proximity: never across pages or frame borders
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      const a = shapes[i];
+      const b = shapes[j];
+      if (a.pageId !== b.pageId || container(a) !== container(b)) continue;
+      if (boundsGap(a.bounds, b.bounds) < pairThreshold(a, b)) {
+        union(i, j);
+      }
+    }
+  }
+
+  // Arrows: connected shapes join over a longer reach
+  links.forEach(([fromId, toId]) => {
+    const from = indexById.get(fromId);
+    const to = indexById.get(toId);
+    if (from === undefined || to === undefined) return;
+    const a = shapes[from];
+    const b = shapes[to];
+    if (a.pageId !== b.pageId) return;
+    if (boundsGap(a.bounds, b.bounds) < pairThreshold(a, b) * arrowReach) {
+      union(from, to);
+    }
+  });
+
+  const groups = new Map<number, ClusterShape[]>();
+  shapes.forEach((shape, i) => {
+    const root = find(i);
+    const group = groups.get(root) || [];
+    group.push(shape);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .map((members) => {
+      const ordered = [...members].sort(readingOrder);
+      return {
+        members: ordered,
+        bounds: unionBounds(ordered.map(member => member.bounds)),
+        pageId: ordered[0].pageId
+      };
+    })
+    .sort((a, b) =>
+      compareIds(a.pageId, b.pageId) || readingOrder(a.members[0], b.members[0])
+    );
+};
+
+export interface HullPoint {
+  x: number;
+  y: number;
+}
+
+// Convex hull (monotone chain) around the padded bounds of a cluster's members
+export const getClusterHull = (cluster: ShapeCluster, padding = 8): HullPoint[] => {
+  const points = cluster.members.flatMap(({ bounds: b }) => [
+    { x: b.x - padding, y: b.y - padding },
+    { x: b.x + b.w + padding, y: b.y - padding },
+    { x: b.x + b.w + padding, y: b.y + b.h + padding },
+    { x: b.x - padding, y: b.y + b.h + padding },
+  ]).sort((a, b) => a.x - b.x || a.y - b.y);
+
+  if (points.length < 3) return points;
+
+  const cross = (o: HullPoint, a: HullPoint, b: HullPoint) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: HullPoint[] = [];
+  for (const point of points) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  const upper: HullPoint[] = [];
+  for (const point of [...points].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+// tldraw font sizes relative to the default 'm'
+const TEXT_SIZE_SCALE: Record<string, number> = {
+  s: 0.75,
+  m: 1,
+  l: 1.5,
+  xl: 1.85,
+};
+
+const getTextScale = (shape: TLShape) => {
+  const props = shape.props as { size?: string; scale?: number };
+  return (TEXT_SIZE_SCALE[props.size ?? 'm'] ?? 1) * (props.scale ?? 1);
+};
+
+// Collect clustering input for the indexed shapes from the editor
+export const getClusterInputs = (
+  editor: Editor,
+  textShapes: Map<string, ShapeTextData>
+): { shapes: ClusterShape[]; links: ClusterLink[] } => {
+  const shapes: ClusterShape[] = [];
+
+  textShapes.forEach((data, id) => {
+    const shape = editor.getShape(id as TLShapeId);
+    if (!shape) return;
+    const bounds = editor.getShapePageBounds(shape);
+    if (!bounds) return;
+
+    const frame = editor.findShapeAncestor(shape, ancestor => ancestor.type === 'frame');
+    shapes.push({
+      id,
+      text: data.text,
+      type: data.type,
+      pageId: data.pageId,
+      bounds: { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h },
+      frameId: frame?.id,
+      scale: getTextScale(shape)
+    });
+  });
+
+  // Every arrow bound at both ends links the two shapes, labelled or not
+  const links: ClusterLink[] = [];
+  editor.getPages().forEach((page) => {
+    editor.getPageShapeIds(page.id).forEach((shapeId) => {
+      const shape = editor.getShape(shapeId);
+      if (!shape || shape.type !== 'arrow') return;
+      const boundIds = editor
+        .getBindingsFromShape(shape, 'arrow')
+        .map(binding => binding.toId as string)
+        .sort(compareIds);
+      if (boundIds.length === 2 && boundIds[0] !== boundIds[1]) {
+        links.push([boundIds[0], boundIds[1]]);
+        // A labelled arrow belongs with what it connects
+        if (textShapes.has(shape.id)) {
+          links.push([shape.id, boundIds[0]], [shape.id, boundIds[1]]);
+        }
+      }
+    });
+  });
+
+  return { shapes, links };
+};
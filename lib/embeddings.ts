@@ -0,0 +1,269 @@
+import { DEFAULT_EMBEDDING_MODEL, EmbeddingModelOption, getEmbeddingModel } from './vectorIndex';
+
+// Main-thread side of the embedding worker (embeddings.worker.ts). Texts are sent
+// as one job per request and embedded in batches; jobs can be cancelled with an
+// AbortSignal. The client tracks model download and embedding progress as a
+// status the UI can subscribe to.
+
+const PREFERRED_MODEL_KEY = 'arkeith-embedding-model';
+
+// The model new indexes are built with, chosen by the user for all boards
+export const loadPreferredEmbeddingModel = (): EmbeddingModelOption => {
+  try {
+    return getEmbeddingModel(localStorage.getItem(PREFERRED_MODEL_KEY) || '') || DEFAULT_EMBEDDING_MODEL;
+  } catch {
+    return DEFAULT_EMBEDDING_MODEL;
+  }
+};
+
+export const savePreferredEmbeddingModel = (model: EmbeddingModelOption) => {
+  localStorage.setItem(PREFERRED_MODEL_KEY, model.id);
+};
+
+export type EmbeddingRequest =
+  | { type: 'embed'; id: number; model: string; texts: string[]; priority: boolean }
+  | { type: 'cancel'; id: number }
+  | { type: 'load'; model: string };
+
+export type EmbeddingResponse =
+  | { type: 'model-progress'; model: string; file: string; progress: number }
+  | { type: 'model-ready'; model: string }
+  | { type: 'model-error'; model: string; error: string }
+  | { type: 'batch'; id: number; start: number; embeddings: number[][]; total: number }
+  | { type: 'done'; id: number }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; error: string };
+
+export type EmbeddingStatus =
+  | { state: 'idle' }
+  | { state: 'loading-model'; progress: number | null }
+  | { state: 'embedding'; done: number; total: number }
+  | { state: 'ready' }
+  | { state: 'error'; error: string };
+
+export interface EmbedOptions {
+  signal?: AbortSignal;
+  // Runs before queued indexing work; used for search queries
+  priority?: boolean;
+  // Texts are search queries rather than board text, for models that distinguish them
+  query?: boolean;
+  // Receives each finished batch, so work done before a cancellation is kept
+  onBatch?: (start: number, embeddings: number[][]) => void;
+}
+
+interface Job {
+  model: string;
+  dimensions: number;
+  total: number;
+  done: number;
+  priority: boolean;
+  results: number[][];
+  onBatch?: EmbedOptions['onBatch'];
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+const abortError = () => {
+  const error = new Error('Embedding cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const createEmbeddingClient = (initialModel: EmbeddingModelOption = DEFAULT_EMBEDDING_MODEL) => {
+  let model = initialModel;
+  let worker: Worker | null = null;
+  let nextJobId = 0;
+  const jobs = new Map<number, Job>();
+  const fileProgress = new Map<string, number>();
+  const listeners = new Set<(status: EmbeddingStatus) => void>();
+  let status: EmbeddingStatus = { state: 'idle' };
+  let modelLoaded = false;
+
+  const setStatus = (next: EmbeddingStatus) => {
+    status = next;
+    listeners.forEach(listener => listener(status));
+  };
+
+  // Progress of indexing jobs; search queries are too small to show
+  const updateProgress = () => {
+    if (!modelLoaded || status.state === 'error') return;
+    const indexing = Array.from(jobs.values()).filter(job => !job.priority);
+    if (indexing.length === 0) {
+      setStatus({ state: 'ready' });
+      return;
+    }
+    setStatus({
+      state: 'embedding',
+      done: indexing.reduce((sum, job) => sum + job.done, 0),
+      total: indexing.reduce((sum, job) => sum + job.total, 0)
+    });
+  };
+
+  const failAll = (error: Error) => {
+    jobs.forEach(job => job.reject(error));
+    jobs.clear();
+  };
+
+  const handleResponse = (response: EmbeddingResponse) => {
+    switch (response.type) {
+      case 'model-progress': {
+        fileProgress.set(response.file, response.progress);
+        const values = Array.from(fileProgress.values());
+        setStatus({
+          state: 'loading-model',
+          progress: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+        });
+        return;
+      }
+      case 'model-ready':
+        modelLoaded = true;
+        fileProgress.clear();
+        setStatus({ state: 'ready' });
+        updateProgress();
+        return;
+      case 'model-error':
+        modelLoaded = false;
+        fileProgress.clear();
+        setStatus({ state: 'error', error: `The embedding model ${response.model} could not be loaded: ${response.error}` });
+        return;
+    }
+
+    const job = jobs.get(response.id);
+    if (!job) return;
+    switch (response.type) {
+      case 'batch':
+        // Vectors of another size would corrupt the index
+        if (response.embeddings.some(embedding => embedding.length !== job.dimensions)) {
+          jobs.delete(response.id);
+          post({ type: 'cancel', id: response.id });
+          job.reject(new Error(`${job.model} returned vectors of an unexpected size (expected ${job.dimensions})`));
+          break;
+        }
+        response.embeddings.forEach((embedding, i) => {
+          job.results[response.start + i] = embedding;
+        });
+        job.done += response.embeddings.length;
+        job.onBatch?.(response.start, response.embeddings);
+        break;
+      case 'done':
+        jobs.delete(response.id);
+        job.resolve(job.results);
+        break;
+      case 'cancelled':
+        jobs.delete(response.id);
+        job.reject(abortError());
+        break;
+      case 'error':
+        jobs.delete(response.id);
+        job.reject(new Error(response.error));
+        break;
+    }
+    updateProgress();
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./embeddings.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<EmbeddingResponse>) => handleResponse(event.data);
+      worker.onerror = (event) => {
+        const error = event.message || 'The embedding worker crashed';
+        failAll(new Error(error));
+        modelLoaded = false;
+        setStatus({ state: 'error', error });
+        worker?.terminate();
+        worker = null;
+      };
+    }
+    return worker;
+  };
+
+  const post = (request: EmbeddingRequest) => getWorker().postMessage(request);
+
+  const startLoading = () => {
+    if (!modelLoaded && status.state !== 'loading-model') {
+      setStatus({ state: 'loading-model', progress: null });
+    }
+  };
+
+  const embed = (texts: string[], { signal, priority = false, query = false, onBatch }: EmbedOptions = {}) =>
+    new Promise<number[][]>((resolve, reject) => {
+      if (texts.length === 0) {
+        resolve([]);
+        return;
+      }
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const id = nextJobId++;
+      jobs.set(id, {
+        model: model.id,
+        dimensions: model.dimensions,
+        total: texts.length,
+        done: 0,
+        priority,
+        results: [],
+        onBatch,
+        resolve,
+        reject
+      });
+      signal?.addEventListener('abort', () => {
+        if (!jobs.has(id)) return;
+        jobs.delete(id);
+        reject(abortError());
+        post({ type: 'cancel', id });
+        updateProgress();
+      }, { once: true });
+
+      const prefix = (query ? model.queryPrefix : model.passagePrefix) || '';
+      startLoading();
+      post({ type: 'embed', id, model: model.id, texts: texts.map(text => prefix + text), priority });
+      updateProgress();
+    });
+
+  return {
+    embed,
+    embedOne: async (text: string, options?: EmbedOptions) => (await embed([text], options))[0],
+    // Start downloading the model before the first request needs it
+    preload: () => {
+      startLoading();
+      post({ type: 'load', model: model.id });
+    },
+    // Try loading the model again after an error
+    retry: () => {
+      setStatus({ state: 'idle' });
+      startLoading();
+      post({ type: 'load', model: model.id });
+    },
+    getModel: () => model,
+    // Later jobs use the new model; jobs already sent finish with the old one
+    setModel: (next: EmbeddingModelOption) => {
+      if (next.id === model.id) return;
+      model = next;
+      modelLoaded = false;
+      fileProgress.clear();
+      setStatus({ state: 'idle' });
+    },
+    getStatus: () => status,
+    subscribe: (listener: (status: EmbeddingStatus) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+export type EmbeddingClient = ReturnType<typeof createEmbeddingClient>;
+
+// One worker and model for the whole page, shared by all boards
+let sharedClient: EmbeddingClient | null = null;
+
+export const getEmbeddingClient = () => {
+  if (!sharedClient) sharedClient = createEmbeddingClient();
+  return sharedClient;
+};
@@ -0,0 +1,123 @@
+import { env, FeatureExtractionPipeline, pipeline } from '@huggingface/transformers';
+import type { EmbeddingRequest, EmbeddingResponse } from './embeddings';
+
+// Owns the embedding model. Jobs are batches of texts, processed in order with
+// priority jobs (search queries) first; cancelled jobs are dropped between batches.
+
+const BATCH_SIZE = 16;
+// Matches client-vector-search, which produced the embeddings stored before
+const PRECISION = 7;
+
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+interface Job {
+  id: number;
+  model: string;
+  texts: string[];
+}
+
+const reply = (response: EmbeddingResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+let extractorModel: string | null = null;
+
+const loadExtractor = (model: string) => {
+  if (!extractorPromise || extractorModel !== model) {
+    // Only one model is kept in memory
+    extractorPromise?.then(extractor => extractor.dispose()).catch(() => {});
+    const loading = pipeline('feature-extraction', model, {
+      dtype: 'q8',
+      progress_callback: (info: any) => {
+        if (info.status === 'progress') {
+          reply({ type: 'model-progress', model, file: info.file, progress: info.progress });
+        }
+      }
+    }) as Promise<FeatureExtractionPipeline>;
+    extractorModel = model;
+    extractorPromise = loading;
+    loading.then(
+      () => reply({ type: 'model-ready', model }),
+      (error) => {
+        // Allow a retry with the next job
+        if (extractorPromise === loading) extractorPromise = null;
+        reply({ type: 'model-error', model, error: error?.message || String(error) });
+      }
+    );
+  }
+  return extractorPromise;
+};
+
+const queue: Job[] = [];
+let currentJobId: number | null = null;
+let currentJobCancelled = false;
+let working = false;
+
+const embedBatch = async (extractor: FeatureExtractionPipeline, texts: string[]) => {
+  const output = await extractor(texts, { pooling: 'mean', normalize: false });
+  return (output.tolist() as number[][]).map(vector =>
+    vector.map(value => parseFloat(value.toFixed(PRECISION)))
+  );
+};
+
+const runJob = async (job: Job) => {
+  const extractor = await loadExtractor(job.model);
+  for (let start = 0; start < job.texts.length; start += BATCH_SIZE) {
+    if (currentJobCancelled) {
+      reply({ type: 'cancelled', id: job.id });
+      return;
+    }
+    const embeddings = await embedBatch(extractor, job.texts.slice(start, start + BATCH_SIZE));
+    reply({ type: 'batch', id: job.id, start, embeddings, total: job.texts.length });
+  }
+  reply({ type: 'done', id: job.id });
+};
+
+const work = async () => {
+  if (working) return;
+  working = true;
+  while (queue.length > 0) {
+    const job = queue.shift()!;
+    currentJobId = job.id;
+    currentJobCancelled = false;
+    try {
+      await runJob(job);
+    } catch (error: any) {
+      reply({ type: 'error', id: job.id, error: error?.message || String(error) });
+    } finally {
+      currentJobId = null;
+    }
+  }
+  working = false;
+};
+
+self.onmessage = (event: MessageEvent<EmbeddingRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'embed': {
+      const job = { id: request.id, model: request.model, texts: request.texts };
+      if (request.priority) {
+        queue.unshift(job);
+      } else {
+        queue.push(job);
+      }
+      work();
+      break;
+    }
+    case 'cancel': {
+      const index = queue.findIndex(job => job.id === request.id);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        reply({ type: 'cancelled', id: request.id });
+      } else if (request.id === currentJobId) {
+        currentJobCancelled = true;
+      }
+      break;
+    }
+    case 'load':
+      loadExtractor(request.model).catch(() => {});
+      break;
+  }
+};
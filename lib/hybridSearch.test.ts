@@ -0,0 +1,153 @@
+import type { EmbeddingIndex } from 'client-vector-search';
+import { describe, expect, it, vi } from 'vitest';
+import { hybridSearch, reciprocalRankFusion, SearchMode } from './hybridSearch';
+import { createKeywordIndex } from './keywordIndex';
+import { normalizeIndexEntry, ObjectItem } from './vectorIndex';
+
+const NOTES: Record<string, string> = {
+  a: 'Launch plan for ABC-123 in May',
+  b: 'Budget review with the finance team',
+  c: 'Project kickoff and launch checklist',
+  d: 'Hiring plan for the design team'
+};
+
+const entries = new Map<string, ObjectItem>(Object.entries(NOTES).map(([id, name]) => [
+  id,
+  normalizeIndexEntry({ id, name, embedding: [0], pageId: id === 'd' ? 'page:2' : 'page:1' })
+]));
+
+const keywordIndex = createKeywordIndex();
+entries.forEach(entry => keywordIndex.add(entry.id, entry.name));
+
+// A vector index that returns a fixed ranking, filtered like the real one
+const fakeEmbeddingIndex = (ranking: [string, number][]) => ({
+  search: async (_embedding: number[], { filter }: { filter?: { pageId: string } } = {}) =>
+    ranking
+      .map(([id, similarity]) => ({ object: entries.get(id)!, similarity }))
+      .filter(result => !filter || result.object.pageId === filter.pageId)
+}) as unknown as EmbeddingIndex;
+
+const search = (query: string, vectorRanking: [string, number][], options: { mode?: SearchMode; pageId?: string } = {}) => {
+  const embed = vi.fn(async () => [0]);
+  const hits = hybridSearch({
+    query,
+    embeddingIndex: fakeEmbeddingIndex(vectorRanking),
+    keywordIndex,
+    entries,
+    embed,
+    ...options
+  });
+  return { hits, embed };
+};
+
+describe('hybridSearch', () => {
+  const cases: {
+    name: string;
+    query: string;
+    vector: [string, number][];
+    mode?: SearchMode;
+    pageId?: string;
+    expected: { id: string; similarity: boolean; keyword: boolean }[];
+  }[] = [
+    {
+      name: 'keeps a keyword-only hit',
+      query: 'ABC-123',
+      vector: [],
+      expected: [{ id: 'a', similarity: false, keyword: true }]
+    },
+    {
+      name: 'keeps a vector-only hit',
+      query: 'money',
+      vector: [['b', 0.8]],
+      expected: [{ id: 'b', similarity: true, keyword: false }]
+    },
+    {
+      name: 'ranks a hit from both searches first, then ties by similarity',
+      query: 'launch',
+      // Keyword ranking is c, a
+      vector: [['c', 0.9], ['b', 0.5]],
+      expected: [
+        { id: 'c', similarity: true, keyword: true },
+        { id: 'b', similarity: true, keyword: false },
+        { id: 'a', similarity: false, keyword: true }
+      ]
+    },
+    {
+      name: 'drops vector hits without the quoted phrase',
+      query: '"launch plan"',
+      vector: [['c', 0.9], ['a', 0.7]],
+      expected: [{ id: 'a', similarity: true, keyword: true }]
+    },
+    {
+      name: 'matches prefixes without the vector search',
+      query: 'laun',
+      vector: [['b', 0.9]],
+      mode: 'prefix',
+      expected: [
+        { id: 'c', similarity: false, keyword: true },
+        { id: 'a', similarity: false, keyword: true }
+      ]
+    },
+    {
+      name: 'keeps only hits on the chosen page',
+      query: 'plan',
+      vector: [['d', 0.9], ['a', 0.8]],
+      pageId: 'page:1',
+      expected: [{ id: 'a', similarity: true, keyword: true }]
+    }
+  ];
+
+  it.each(cases)('$name', async ({ query, vector, mode, pageId, expected }) => {
+    const hits = await search(query, vector, { mode, pageId }).hits;
+    expect(hits.map(hit => ({
+      id: hit.item.id,
+      similarity: hit.similarity !== null,
+      keyword: hit.keywordScore !== null
+    }))).toEqual(expected);
+  });
+
+  it('only embeds the query in hybrid mode', async () => {
+    const hybrid = search('launch', []);
+    await hybrid.hits;
+    expect(hybrid.embed).toHaveBeenCalledWith('launch');
+
+    const prefix = search('launch', [], { mode: 'prefix' });
+    await prefix.hits;
+    expect(prefix.embed).not.toHaveBeenCalled();
+  });
+
+  it.each(['', '   ', '""'])('returns nothing for the empty query %j', async (query) => {
+    const { hits, embed } = search(query, [['a', 0.9]]);
+    expect(await hits).toEqual([]);
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('returns at most topK hits', async () => {
+    const hits = await hybridSearch({
+      query: 'plan',
+      embeddingIndex: fakeEmbeddingIndex([['b', 0.9], ['c', 0.8]]),
+      keywordIndex,
+      entries,
+      embed: async () => [0],
+      topK: 2
+    });
+    expect(hits).toHaveLength(2);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (k + rank) over the rankings', () => {
+    const scores = reciprocalRankFusion([['x', 'y'], ['y']]);
+    expect(scores.get('x')).toBeCloseTo(1 / 61);
+    expect(scores.get('y')).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('ranks an item found by both lists over the top of one list', () => {
+    const scores = reciprocalRankFusion([['x', 'both'], ['y', 'both']]);
+    expect(scores.get('both')!).toBeGreaterThan(scores.get('x')!);
+  });
+
+  it('is empty without rankings', () => {
+    expect(reciprocalRankFusion([[], []]).size).toBe(0);
+  });
+});
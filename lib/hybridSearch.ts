@@ -0,0 +1,96 @@
+import type { EmbeddingIndex } from 'client-vector-search';
+import { KeywordIndex, parseSearchQuery } from './keywordIndex';
+import type { ObjectItem } from './vectorIndex';
+
+// Keyword and semantic search over the same clusters, merged with reciprocal rank fusion
+
+export type SearchMode = 'hybrid' | 'prefix';
+
+export interface SearchHit {
+  item: ObjectItem;
+  // Fused reciprocal rank score, only meaningful for ordering
+  score: number;
+  // Cosine similarity from the vector search, when it found this item
+  similarity: number | null;
+  // BM25 score from the keyword search, when it found this item
+  keywordScore: number | null;
+}
+
+export interface HybridSearchOptions {
+  query: string;
+  // 'prefix' matches every term as a word prefix and skips the embedding search
+  mode?: SearchMode;
+  embeddingIndex: EmbeddingIndex;
+  keywordIndex: KeywordIndex;
+  entries: Map<string, ObjectItem>;
+  embed: (text: string) => Promise<number[]>;
+  topK?: number;
+  // Restrict results to one page
+  pageId?: string;
+}
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+export const reciprocalRankFusion = (rankings: string[][], k = RRF_K): Map<string, number> => {
+  const scores = new Map<string, number>();
+  rankings.forEach((ranking) => {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + rank + 1));
+    });
+  });
+  return scores;
+};
+
+export const hybridSearch = async ({
+  query,
+  mode = 'hybrid',
+  embeddingIndex,
+  keywordIndex,
+  entries,
+  embed,
+  topK = 10,
+  pageId
+}: HybridSearchOptions): Promise<SearchHit[]> => {
+  const parsed = parseSearchQuery(query);
+  if (!parsed.text) return [];
+
+  // Look further down each list than we return, so fusion has something to merge
+  const candidates = Math.max(topK * 3, 30);
+  const onPage = (item?: ObjectItem) => !!item && (!pageId || item.pageId === pageId);
+
+  const keywordHits = keywordIndex
+    .search(parsed, { prefix: mode === 'prefix', limit: candidates })
+    .filter(hit => onPage(entries.get(hit.id)));
+
+  let vectorHits: { id: string; similarity: number }[] = [];
+  if (mode === 'hybrid') {
+    const queryEmbedding = await embed(parsed.text);
+    const results = await embeddingIndex.search(queryEmbedding, {
+      topK: candidates,
+      filter: pageId ? { pageId } : undefined
+    });
+    vectorHits = results
+      .map(result => ({ id: (result.object as ObjectItem).id, similarity: result.similarity }))
+      // Quoted phrases must appear verbatim in semantic hits too
+      .filter(hit => parsed.phrases.length === 0 || keywordIndex.containsPhrases(hit.id, parsed.phrases));
+  }
+
+  const fused = reciprocalRankFusion([
+    vectorHits.map(hit => hit.id),
+    keywordHits.map(hit => hit.id)
+  ]);
+  const similarities = new Map(vectorHits.map(hit => [hit.id, hit.similarity]));
+  const keywordScores = new Map(keywordHits.map(hit => [hit.id, hit.score]));
+
+  return Array.from(fused.entries())
+    .map(([id, score]) => ({
+      item: entries.get(id),
+      score,
+      similarity: similarities.get(id) ?? null,
+      keywordScore: keywordScores.get(id) ?? null
+    }))
+    .filter((hit): hit is SearchHit => Boolean(hit.item))
+    .sort((a, b) => b.score - a.score || (b.similarity ?? 0) - (a.similarity ?? 0))
+    .slice(0, topK);
+};
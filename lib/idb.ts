@@ -0,0 +1,67 @@
+// Small promise helpers over IndexedDB, shared by the vector index and chat stores
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+// Open (and cache) a database; `upgrade` creates missing object stores
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not supported'));
+  }
+
+  let dbPromise = databases.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let deleteDatabase proceed when another tab deletes this database
+        db.onversionchange = () => {
+          db.close();
+          databases.delete(name);
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        databases.delete(name);
+        reject(request.error || new Error(`Failed to open database ${name}`));
+      };
+    });
+    databases.set(name, dbPromise);
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+export const deleteDatabase = async (name: string) => {
+  const open = databases.get(name);
+  databases.delete(name);
+  if (open) {
+    (await open.catch(() => null))?.close();
+  }
+  if (typeof indexedDB === 'undefined') return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open; the delete completes once it closes
+    request.onblocked = () => resolve();
+  });
+};
@@ -0,0 +1,215 @@
+import {
+  Editor,
+  exportToBlob,
+  TLDrawShape,
+  TLImageAsset,
+  TLImageShape,
+  TLShape
+} from '@tldraw/tldraw';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { notifyShapeTextChanged, registerShapeTextExtractor } from './shapeText';
+import { createCoalescingRunner, hashString } from './vectorIndex';
+
+// Derived text for shapes that carry none: image assets and freehand drawings are
+// run through OCR and captioning in a worker (imageText.worker.ts). Results are
+// cached in IndexedDB by content hash, shared by all boards, and returned by the
+// image and draw text extractors so they are indexed like any other text.
+
+export interface ImageTextRequest {
+  id: number;
+  image: Blob;
+}
+
+export type ImageTextResponse =
+  | { id: number; ocr: string; caption: string }
+  | { id: number; error: string };
+
+interface ImageTextResult {
+  // Content hash of the image bytes or drawing strokes
+  hash: string;
+  ocr: string;
+  caption: string;
+}
+
+const DB_NAME = 'arkeith-image-text';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const SCAN_DELAY_MS = 1500;
+
+const openImageTextDatabase = () =>
+  openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+      db.createObjectStore(RESULTS_STORE, { keyPath: 'hash' });
+    }
+  });
+
+const getCachedResult = async (hash: string) => {
+  const db = await openImageTextDatabase();
+  const store = db.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE);
+  return (await requestToPromise(store.get(hash) as IDBRequest<ImageTextResult | undefined>)) || null;
+};
+
+const putCachedResult = async (result: ImageTextResult) => {
+  const db = await openImageTextDatabase();
+  const transaction = db.transaction(RESULTS_STORE, 'readwrite');
+  transaction.objectStore(RESULTS_STORE).put(result);
+  await transactionDone(transaction);
+};
+
+// Recognized text by source key; an empty string means nothing was found
+const derivedText = new Map<string, string>();
+
+// Stroke hashes, memoized per props record since records are immutable
+const drawKeys = new WeakMap<object, string>();
+
+const getDrawKey = (shape: TLDrawShape) => {
+  let key = drawKeys.get(shape.props);
+  if (!key) {
+    key = `draw:${hashString(JSON.stringify(shape.props.segments))}`;
+    drawKeys.set(shape.props, key);
+  }
+  return key;
+};
+
+// Identifies what a shape shows: its image asset or its strokes
+const getSourceKey = (shape: TLShape): string | null => {
+  if (shape.type === 'image') {
+    const { assetId } = (shape as TLImageShape).props;
+    return assetId ? `image:${assetId}` : null;
+  }
+  if (shape.type === 'draw') {
+    // Wait until the stroke is finished
+    return (shape as TLDrawShape).props.isComplete ? getDrawKey(shape as TLDrawShape) : null;
+  }
+  return null;
+};
+
+const formatDerivedText = ({ ocr, caption }: ImageTextResult) =>
+  [ocr, caption].map(part => part.trim()).filter(Boolean).join(' - ');
+
+const getDerivedText = (shape: TLShape) => {
+  const key = getSourceKey(shape);
+  return key ? derivedText.get(key) || '' : '';
+};
+
+registerShapeTextExtractor<TLImageShape>('image', getDerivedText);
+registerShapeTextExtractor<TLDrawShape>('draw', getDerivedText);
+
+const sha256 = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Watches the board and recognizes text in new images and drawings, one at a time.
+// Returns a function that stops it.
+export const startImageTextRecognition = (editor: Editor) => {
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  let stopped = false;
+  const requests = new Map<number, { resolve: (result: Omit<ImageTextResult, 'hash'>) => void; reject: (error: Error) => void }>();
+  // Sources that failed are not retried until the next page load
+  const failed = new Set<string>();
+
+  const failAll = (error: Error) => {
+    requests.forEach(request => request.reject(error));
+    requests.clear();
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./imageText.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ImageTextResponse>) => {
+        const response = event.data;
+        const request = requests.get(response.id);
+        if (!request) return;
+        requests.delete(response.id);
+        if ('error' in response) {
+          request.reject(new Error(response.error));
+        } else {
+          request.resolve({ ocr: response.ocr, caption: response.caption });
+        }
+      };
+      worker.onerror = (event) => {
+        failAll(new Error(event.message || 'Image recognition worker failed'));
+        worker?.terminate();
+        worker = null;
+      };
+    }
+    return worker;
+  };
+
+  const recognize = (image: Blob) =>
+    new Promise<Omit<ImageTextResult, 'hash'>>((resolve, reject) => {
+      const id = nextRequestId++;
+      requests.set(id, { resolve, reject });
+      getWorker().postMessage({ id, image } satisfies ImageTextRequest);
+    });
+
+  // The image to recognize and its content hash; drawings are rasterized
+  const getSourceImage = async (shape: TLShape, key: string) => {
+    if (shape.type === 'draw') {
+      const blob = await exportToBlob({
+        editor,
+        ids: [shape.id],
+        format: 'png',
+        opts: { background: true, padding: 16 }
+      });
+      return { hash: key, blob };
+    }
+
+    const { assetId } = (shape as TLImageShape).props;
+    const asset = assetId ? editor.getAsset<TLImageAsset>(assetId) : undefined;
+    if (!asset?.props.src) return null;
+    const blob = await (await fetch(asset.props.src)).blob();
+    return { hash: `image:${await sha256(blob)}`, blob };
+  };
+
+  const processShape = async (shape: TLShape, key: string) => {
+    try {
+      // Drawings are keyed by their strokes, so the cache can be checked first
+      let result = shape.type === 'draw' ? await getCachedResult(key).catch(() => null) : null;
+      if (!result) {
+        const source = await getSourceImage(shape, key);
+        if (!source) return;
+        result = await getCachedResult(source.hash).catch(() => null);
+        if (!result) {
+          result = { hash: source.hash, ...(await recognize(source.blob)) };
+          await putCachedResult(result).catch(console.error);
+        }
+      }
+      if (stopped) return;
+      derivedText.set(key, formatDerivedText(result));
+      console.log('Recognized image text:', { shapeId: shape.id, text: derivedText.get(key) });
+      notifyShapeTextChanged();
+    } catch (error) {
+      if (stopped) return;
+      failed.add(key);
+      console.error('Failed to recognize image text:', { shapeId: shape.id, error });
+    }
+  };
+
+  const scan = async () => {
+    for (const page of editor.getPages()) {
+      for (const shapeId of Array.from(editor.getPageShapeIds(page.id))) {
+        if (stopped) return;
+        const shape = editor.getShape(shapeId);
+        const key = shape && getSourceKey(shape);
+        if (!shape || !key || derivedText.has(key) || failed.has(key)) continue;
+        await processShape(shape, key);
+      }
+    }
+  };
+
+  const runner = createCoalescingRunner<void>(scan, SCAN_DELAY_MS);
+  const stopListening = editor.store.listen(() => runner.schedule(), { scope: 'document' });
+  runner.schedule();
+
+  return () => {
+    stopped = true;
+    stopListening();
+    runner.cancel();
+    failAll(new Error('Image recognition stopped'));
+    worker?.terminate();
+    worker = null;
+  };
+};
@@ -0,0 +1,95 @@
+import {
+  AutoProcessor,
+  AutoTokenizer,
+  env,
+  Florence2ForConditionalGeneration,
+  Florence2Processor,
+  PreTrainedTokenizer,
+  RawImage,
+  Tensor
+} from '@huggingface/transformers';
+import type { ImageTextRequest, ImageTextResponse } from './imageText';
+
+// Runs Florence-2 off the main thread for OCR and captioning. Model files come
+// from the Hugging Face hub once and are then served from the browser cache, so
+// recognition keeps working offline.
+
+const MODEL_ID = 'onnx-community/Florence-2-base-ft';
+const MAX_NEW_TOKENS = 128;
+
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+type FlorenceTask = '<OCR>' | '<CAPTION>';
+
+interface FlorenceModel {
+  model: Florence2ForConditionalGeneration;
+  processor: Florence2Processor;
+  tokenizer: PreTrainedTokenizer;
+}
+
+const hasWebGPU = typeof navigator !== 'undefined' && 'gpu' in navigator;
+
+let modelPromise: Promise<FlorenceModel> | null = null;
+
+const loadModel = () => {
+  if (!modelPromise) {
+    modelPromise = Promise.all([
+      Florence2ForConditionalGeneration.from_pretrained(MODEL_ID, {
+        device: hasWebGPU ? 'webgpu' : 'wasm',
+        dtype: hasWebGPU
+          ? { embed_tokens: 'fp16', vision_encoder: 'fp16', encoder_model: 'q4', decoder_model_merged: 'q4' }
+          : 'q8'
+      }),
+      AutoProcessor.from_pretrained(MODEL_ID, {}),
+      AutoTokenizer.from_pretrained(MODEL_ID)
+    ]).then(([model, processor, tokenizer]) => ({
+      model: model as Florence2ForConditionalGeneration,
+      processor: processor as Florence2Processor,
+      tokenizer
+    }));
+    // Allow a retry after a failed download
+    modelPromise.catch(() => {
+      modelPromise = null;
+    });
+  }
+  return modelPromise;
+};
+
+const runTask = async (image: RawImage, task: FlorenceTask): Promise<string> => {
+  const { model, processor, tokenizer } = await loadModel();
+  const textInputs = tokenizer(processor.construct_prompts(task));
+  const visionInputs = await processor(image);
+  const generatedIds = await model.generate({
+    ...textInputs,
+    ...visionInputs,
+    max_new_tokens: MAX_NEW_TOKENS
+  } as Parameters<typeof model.generate>[0]);
+  // Without return_dict_in_generate the output is the tensor of token ids
+  if (!(generatedIds instanceof Tensor)) throw new Error('Florence-2 returned no token ids');
+  const generated = tokenizer.batch_decode(generatedIds, { skip_special_tokens: false })[0];
+  const result = processor.post_process_generation(generated, task, image.size);
+  const text = result[task];
+  return typeof text === 'string' ? text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() : '';
+};
+
+const reply = (response: ImageTextResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+// Requests are handled one at a time; the model is too heavy to run in parallel
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<ImageTextRequest>) => {
+  const { id, image } = event.data;
+  queue = queue.then(async () => {
+    try {
+      const raw = await RawImage.fromBlob(image);
+      const ocr = await runTask(raw, '<OCR>');
+      const caption = await runTask(raw, '<CAPTION>');
+      reply({ id, ocr, caption });
+    } catch (error: any) {
+      reply({ id, error: error?.message || String(error) });
+    }
+  });
+};
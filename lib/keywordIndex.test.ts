@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createKeywordIndex, parseSearchQuery, tokenize } from './keywordIndex';
+
+const buildIndex = (documents: Record<string, string>) => {
+  const index = createKeywordIndex();
+  Object.entries(documents).forEach(([id, text]) => index.add(id, text));
+  return index;
+};
+
+const rankedIds = (index: ReturnType<typeof createKeywordIndex>, query: string, prefix = false) =>
+  index.search(parseSearchQuery(query), { prefix }).map(hit => hit.id);
+
+describe('tokenize', () => {
+  it.each([
+    { text: 'Launch Plan', expected: ['launch', 'plan'] },
+    { text: 'Fix ABC-123 now', expected: ['fix', 'abc-123', 'abc', '123', 'now'] },
+    { text: 'v1.2 and #42', expected: ['v1.2', 'v1', '2', 'and', '42'] },
+    { text: 'Größe über', expected: ['größe', 'über'] },
+    { text: ' -- ', expected: [] }
+  ])('splits "$text"', ({ text, expected }) => {
+    expect(tokenize(text)).toEqual(expected);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it.each([
+    { query: 'launch plan', terms: ['launch', 'plan'], phrases: [], text: 'launch plan' },
+    { query: '"Launch  Plan" may', terms: ['may', 'launch', 'plan'], phrases: ['launch plan'], text: 'Launch Plan may' },
+    { query: '""', terms: [], phrases: [], text: '' },
+    { query: '   ', terms: [], phrases: [], text: '' }
+  ])('parses $query', ({ query, terms, phrases, text }) => {
+    expect(parseSearchQuery(query)).toEqual({ terms, phrases, text });
+  });
+});
+
+describe('keyword index', () => {
+  const documents = {
+    a: 'Launch plan for ABC-123 in May',
+    b: 'Budget review with the finance team',
+    c: 'Project kickoff and launch checklist',
+    d: 'Hiring plan for the design team'
+  };
+
+  it.each([
+    { name: 'ranks the shorter of two matching notes first', query: 'launch', expected: ['c', 'a'] },
+    { name: 'finds compound identifiers whole', query: 'ABC-123', expected: ['a'] },
+    { name: 'finds compound identifiers by a part', query: '123', expected: ['a'] },
+    { name: 'weighs a rare term over a common one', query: 'design team', expected: ['d', 'b'] },
+    { name: 'keeps only notes holding every quoted phrase', query: '"launch plan"', expected: ['a'] },
+    { name: 'matches a phrase across different spacing and case', query: '"FINANCE   team"', expected: ['b'] },
+    { name: 'matches whole words only without prefix mode', query: 'laun', expected: [] },
+    { name: 'finds nothing for an empty query', query: '', expected: [] }
+  ])('$name', ({ query, expected }) => {
+    expect(rankedIds(buildIndex(documents), query)).toEqual(expected);
+  });
+
+  it.each([
+    { query: 'laun', expected: ['c', 'a'] },
+    { query: 'pla', expected: ['d', 'a'] },
+    { query: 'xyz', expected: [] }
+  ])('matches $query as a word prefix in prefix mode', ({ query, expected }) => {
+    expect(rankedIds(buildIndex(documents), query, true)).toEqual(expected);
+  });
+
+  it('forgets removed and replaced notes', () => {
+    const index = buildIndex(documents);
+    index.remove('c');
+    index.add('a', 'Launch retro');
+    expect(rankedIds(index, 'launch')).toEqual(['a']);
+    expect(rankedIds(index, 'may')).toEqual([]);
+    expect(index.size()).toBe(3);
+  });
+
+  it('breaks score ties by id', () => {
+    const index = buildIndex({ y: 'same text', x: 'same text' });
+    expect(rankedIds(index, 'same')).toEqual(['x', 'y']);
+  });
+});
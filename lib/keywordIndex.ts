@@ -0,0 +1,155 @@
+// In-memory inverted index with BM25 scoring, kept in sync with the vector index
+// so exact identifiers, ticket numbers and names can be found by keyword.
+
+// Words, numbers and compound identifiers such as ABC-123, v1.2 or #42
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_.:/#][\p{L}\p{N}]+)*/gu;
+const TOKEN_SEPARATORS = /[-_.:/#]/;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Lowercased tokens; compound identifiers are kept whole and also split into parts
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    tokens.push(token);
+    if (TOKEN_SEPARATORS.test(token)) {
+      tokens.push(...token.split(TOKEN_SEPARATORS).filter(Boolean));
+    }
+  }
+  return tokens;
+};
+
+export const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export interface ParsedQuery {
+  // Individual search terms, including the words of quoted phrases
+  terms: string[];
+  // Quoted phrases that must appear verbatim (ignoring case and spacing)
+  phrases: string[];
+  // The query without quotes, for embedding
+  text: string;
+}
+
+export const parseSearchQuery = (raw: string): ParsedQuery => {
+  const phrases: string[] = [];
+  const rest = raw.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = normalizeText(phrase);
+    if (normalized) phrases.push(normalized);
+    return ' ';
+  });
+
+  return {
+    terms: Array.from(new Set([...tokenize(rest), ...phrases.flatMap(tokenize)])),
+    phrases,
+    text: raw.replace(/"/g, ' ').replace(/\s+/g, ' ').trim()
+  };
+};
+
+export interface KeywordHit {
+  id: string;
+  score: number;
+}
+
+export interface KeywordSearchOptions {
+  // Treat every term as a prefix, e.g. "proj" matches "project"
+  prefix?: boolean;
+  limit?: number;
+}
+
+interface IndexedDocument {
+  text: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+export const createKeywordIndex = () => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+  let totalLength = 0;
+
+  const remove = (id: string) => {
+    const document = documents.get(id);
+    if (!document) return;
+
+    document.termFrequencies.forEach((_, term) => {
+      const ids = postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) postings.delete(term);
+    });
+    totalLength -= document.length;
+    documents.delete(id);
+  };
+
+  const add = (id: string, text: string) => {
+    remove(id);
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+    termFrequencies.forEach((_, term) => {
+      const ids = postings.get(term) || new Set<string>();
+      ids.add(id);
+      postings.set(term, ids);
+    });
+
+    documents.set(id, { text: normalizeText(text), length: tokens.length, termFrequencies });
+    totalLength += tokens.length;
+  };
+
+  const containsPhrases = (id: string, phrases: string[]) => {
+    const document = documents.get(id);
+    return !!document && phrases.every(phrase => document.text.includes(phrase));
+  };
+
+  // Indexed terms a query term matches
+  const expandTerm = (term: string, prefix: boolean): string[] => {
+    if (!prefix) return postings.has(term) ? [term] : [];
+    return Array.from(postings.keys()).filter(indexed => indexed.startsWith(term));
+  };
+
+  const search = (query: ParsedQuery, { prefix = false, limit = 50 }: KeywordSearchOptions = {}): KeywordHit[] => {
+    if (documents.size === 0 || query.terms.length === 0) return [];
+
+    const averageLength = totalLength / documents.size || 1;
+    const scores = new Map<string, number>();
+
+    query.terms.forEach((queryTerm) => {
+      expandTerm(queryTerm, prefix).forEach((term) => {
+        const ids = postings.get(term);
+        if (!ids) return;
+
+        const idf = Math.log(1 + (documents.size - ids.size + 0.5) / (ids.size + 0.5));
+        ids.forEach((id) => {
+          const document = documents.get(id)!;
+          const frequency = document.termFrequencies.get(term) || 0;
+          const normalizedFrequency = (frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+          scores.set(id, (scores.get(id) || 0) + idf * normalizedFrequency);
+        });
+      });
+    });
+
+    return Array.from(scores.entries())
+      .filter(([id]) => query.phrases.length === 0 || containsPhrases(id, query.phrases))
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1))
+      .slice(0, limit);
+  };
+
+  return {
+    add,
+    remove,
+    search,
+    containsPhrases,
+    clear() {
+      documents.clear();
+      postings.clear();
+      totalLength = 0;
+    },
+    size: () => documents.size
+  };
+};
+
+export type KeywordIndex = ReturnType<typeof createKeywordIndex>;
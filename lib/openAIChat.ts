@@ -0,0 +1,56 @@
+import type { OpenAI } from 'openai';
+import type { ChatRequest, ToolCallRequest } from './providers';
+
+// Streaming over the OpenAI chat completions API, shared by the server providers
+// and the browser-direct chat (browserChat.ts). Only the SDK types are imported
+// here, so the browser loads the SDK when it first chats.
+
+export const DEFAULT_MAX_TOKENS = 2048;
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// Tool calls are streamed in pieces; the index says which call a piece belongs to
+export const collectToolCalls = (calls: Map<number, ToolCallRequest>, deltas: ToolCallDelta[] | undefined) => {
+  deltas?.forEach((delta) => {
+    const call = calls.get(delta.index) || { id: '', name: '', arguments: '' };
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.name += delta.function.name;
+    if (delta.function?.arguments) call.arguments += delta.function.arguments;
+    calls.set(delta.index, call);
+  });
+};
+
+export const reportToolCalls = (calls: Map<number, ToolCallRequest>, onToolCalls: ChatRequest['onToolCalls']) => {
+  if (calls.size === 0) return;
+  onToolCalls?.(Array.from(calls.entries()).map(([index, call]) => ({ ...call, id: call.id || `call-${index}` })));
+};
+
+export const streamOpenAIChat = async function* (
+  client: OpenAI,
+  model: string,
+  { messages, maxTokens = DEFAULT_MAX_TOKENS, signal, tools, onToolCalls }: ChatRequest
+) {
+  const completion = await client.chat.completions.create({
+    messages,
+    model,
+    max_tokens: maxTokens,
+    stream: true,
+    ...(tools?.length ? { tools } : {}),
+  }, { signal });
+
+  const toolCalls = new Map<number, ToolCallRequest>();
+  try {
+    for await (const chunk of completion) {
+      collectToolCalls(toolCalls, chunk.choices[0]?.delta?.tool_calls);
+      yield chunk.choices[0]?.delta?.content || '';
+    }
+    reportToolCalls(toolCalls, onToolCalls);
+  } finally {
+    // Stops the upstream request if the consumer gives up early
+    completion.controller.abort();
+  }
+};
@@ -0,0 +1,181 @@
+import { Groq } from 'groq-sdk';
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { collectToolCalls, DEFAULT_MAX_TOKENS, reportToolCalls, streamOpenAIChat } from './openAIChat';
+
+// LLM providers for the chat route. The provider is chosen per request, falling
+// back to the LLM_PROVIDER env variable and then to OpenRouter.
+
+export type ProviderId = 'openrouter' | 'groq' | 'openai-compatible' | 'mock';
+
+export const PROVIDER_IDS: ProviderId[] = ['openrouter', 'groq', 'openai-compatible', 'mock'];
+
+// A complete function call from the model, with its JSON encoded arguments
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ChatRequest {
+  messages: ChatCompletionMessageParam[];
+  model?: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Functions the model may call; ignored by providers without tool support
+  tools?: ChatCompletionTool[];
+  // Receives the tool calls once the reply has finished streaming
+  onToolCalls?: (calls: ToolCallRequest[]) => void;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  // Whether image_url message parts can be sent to this provider
+  supportsImages: boolean;
+  // Whether function calling can be used with this provider
+  supportsTools: boolean;
+  isConfigured: () => boolean;
+  // Yields text deltas of the reply as they arrive
+  streamChat: (request: ChatRequest) => AsyncIterable<string>;
+}
+
+const openRouterProvider: ChatProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  defaultModel: process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini',
+  supportsImages: true,
+  supportsTools: true,
+  isConfigured: () => Boolean(process.env.OPENROUTER_API_KEY),
+  streamChat(request) {
+    const client = new OpenAI({
+      apiKey: process.env.OPENROUTER_API_KEY,
+      baseURL: 'https://openrouter.ai/api/v1'
+    });
+    return streamOpenAIChat(client, request.model || this.defaultModel, request);
+  }
+};
+
+const groqProvider: ChatProvider = {
+  id: 'groq',
+  label: 'Groq',
+  defaultModel: process.env.GROQ_MODEL || 'llama-3.1-70b-versatile',
+  supportsImages: false,
+  supportsTools: true,
+  isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+  async *streamChat({ messages, model, maxTokens = DEFAULT_MAX_TOKENS, signal, tools, onToolCalls }) {
+    const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+    const completion = await groq.chat.completions.create({
+      messages: messages as Groq.Chat.ChatCompletionMessageParam[],
+      model: model || this.defaultModel,
+      max_tokens: maxTokens,
+      stream: true,
+      ...(tools?.length ? { tools: tools as Groq.Chat.ChatCompletionTool[] } : {}),
+    }, { signal });
+
+    const toolCalls = new Map<number, ToolCallRequest>();
+    try {
+      for await (const chunk of completion) {
+        collectToolCalls(toolCalls, chunk.choices[0]?.delta?.tool_calls);
+        yield chunk.choices[0]?.delta?.content || '';
+      }
+      reportToolCalls(toolCalls, onToolCalls);
+    } finally {
+      completion.controller.abort();
+    }
+  }
+};
+
+// Any server implementing /v1/chat/completions, e.g. llama.cpp or Ollama
+const openAICompatibleProvider: ChatProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.2',
+  supportsImages: process.env.OPENAI_COMPATIBLE_SUPPORTS_IMAGES === 'true',
+  supportsTools: process.env.OPENAI_COMPATIBLE_SUPPORTS_TOOLS === 'true',
+  isConfigured: () => Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL),
+  streamChat(request) {
+    const client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL
+    });
+    return streamOpenAIChat(client, request.model || this.defaultModel, request);
+  }
+};
+
+const textOf = (message: ChatCompletionMessageParam): string => {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content
+    .map(part => ('text' in part ? part.text : ''))
+    .join(' ');
+};
+
+// Deterministic replies for running the chat flow offline. The reply only
+// depends on the request, so the same conversation always streams the same words.
+export const mockReply = (messages: ChatCompletionMessageParam[]): string => {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  const hasImage = messages.some(message =>
+    Array.isArray(message.content) &&
+    message.content.some(part => part.type === 'image_url')
+  );
+  // Cite the first context reference, so citations can be tried offline
+  const firstRef = messages.map(textOf).join('\n').match(/\[#[0-9a-z]+\]/i)?.[0];
+  return [
+    `Mock reply to: ${lastUser ? textOf(lastUser).trim() : '(no question)'}`,
+    `Messages: ${messages.length}.`,
+    `Image: ${hasImage ? 'yes' : 'no'}.`,
+    ...(firstRef ? [`Source: ${firstRef}.`] : [])
+  ].join(' ');
+};
+
+// Asking the mock for a "note" proposes one next to the first shape in the context
+const mockToolCall = (messages: ChatCompletionMessageParam[]): ToolCallRequest | null => {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user' && typeof message.content === 'string');
+  const question = lastUser ? textOf(lastUser).trim() : '';
+  if (!/\bnote\b/i.test(question)) return null;
+  const shapeId = messages.map(textOf).join('\n').match(/shape:[\w-]+/)?.[0];
+  return {
+    id: 'mock-call-0',
+    name: 'create_note',
+    arguments: JSON.stringify({ text: question, near_shape_ids: shapeId ? [shapeId] : [] })
+  };
+};
+
+const mockProvider: ChatProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock',
+  supportsImages: true,
+  supportsTools: true,
+  isConfigured: () => true,
+  async *streamChat({ messages, signal, tools, onToolCalls }) {
+    for (const word of mockReply(messages).split(/(?<= )/)) {
+      if (signal?.aborted) return;
+      yield word;
+    }
+    const toolCall = tools?.length ? mockToolCall(messages) : null;
+    if (toolCall) onToolCalls?.([toolCall]);
+  }
+};
+
+const providers: Record<ProviderId, ChatProvider> = {
+  'openrouter': openRouterProvider,
+  'groq': groqProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider,
+};
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value);
+
+// Resolve the provider for a request; throws when an unknown id is requested
+export const getProvider = (requested?: string | null): ChatProvider => {
+  const id = requested || process.env.LLM_PROVIDER || 'openrouter';
+  if (!isProviderId(id)) {
+    throw new Error(`Unknown LLM provider: ${id}`);
+  }
+  return providers[id];
+};
@@ -0,0 +1,58 @@
+import type { Editor, TLShapeId } from '@tldraw/tldraw';
+import type { NoteColor } from './canvasTools';
+import { ContextSource, getSourceRefs } from './citations';
+import { getShapeText } from './shapeText';
+import { hashString } from './vectorIndex';
+
+// Assistant actions on the current selection, offered in the canvas context menu
+// and the toolbar. They send only the selected shapes (and the shapes inside
+// selected frames and groups) instead of searching the whole board.
+
+export type SelectionActionId = 'summarize' | 'action-items' | 'critique';
+
+export interface SelectionAction {
+  id: SelectionActionId;
+  label: string;
+  prompt: string;
+  noteColor: NoteColor;
+}
+
+export const SELECTION_ACTIONS: SelectionAction[] = [
+  {
+    id: 'summarize',
+    label: 'Summarize',
+    prompt: 'Summarize the selected whiteboard content in a few sentences.',
+    noteColor: 'yellow'
+  },
+  {
+    id: 'action-items',
+    label: 'Action items',
+    prompt: 'List the action items in the selected whiteboard content, one per line. Say so if there are none.',
+    noteColor: 'green'
+  },
+  {
+    id: 'critique',
+    label: 'Critique',
+    prompt: 'Critique the selected whiteboard content: point out gaps, risks and unclear or contradictory points.',
+    noteColor: 'orange'
+  }
+];
+
+// Selected shapes (or an earlier selection) with their descendants, in selection order
+export const getSelectionShapeIds = (editor: Editor, selectedIds = editor.getSelectedShapeIds()): TLShapeId[] => {
+  const ids = new Set<TLShapeId>();
+  selectedIds.forEach(id => editor.getShapeAndDescendantIds([id]).forEach(d => ids.add(d)));
+  return Array.from(ids);
+};
+
+// One source per selected shape that has text
+export const getSelectionSources = (editor: Editor, selectedIds = editor.getSelectedShapeIds()): ContextSource[] => {
+  const shapes = getSelectionShapeIds(editor, selectedIds)
+    .map(id => editor.getShape(id))
+    .filter((shape): shape is NonNullable<typeof shape> => Boolean(shape))
+    .map(shape => ({ id: shape.id, text: getShapeText(editor, shape) }))
+    .filter(shape => shape.text);
+
+  const refs = getSourceRefs(shapes.map(shape => hashString(shape.id)));
+  return shapes.map((shape, i) => ({ ref: refs[i], text: shape.text, shapeIds: [shape.id] }));
+};
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AppSettings,
+  copyBoardSettings,
+  DEFAULT_SETTINGS,
+  deleteBoardSettings,
+  loadBoardSettings,
+  loadGlobalSettings,
+  resolveSettings,
+  saveBoardSettings,
+  saveGlobalSettings,
+  SETTING_RANGES
+} from './settings';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+});
+
+const storeGlobal = (value: unknown) => storage.set('arkeith-settings', JSON.stringify(value));
+
+beforeEach(() => {
+  storage.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadGlobalSettings', () => {
+  it('returns the defaults when nothing is stored', () => {
+    expect(loadGlobalSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it.each([
+    { name: 'the lowest cluster gap', stored: { clusterThreshold: SETTING_RANGES.clusterThreshold.min } },
+    { name: 'the highest cluster gap', stored: { clusterThreshold: SETTING_RANGES.clusterThreshold.max } },
+    { name: 'the longest answer', stored: { maxTokens: SETTING_RANGES.maxTokens.max } },
+    { name: 'a model name', stored: { provider: 'openrouter', chatModel: 'openai/gpt-4o' } },
+    { name: 'switches', stored: { sendScreenshots: false, recognizeImages: true } },
+    {
+      name: 'a screenshot budget at its limits',
+      stored: {
+        visualBudget: {
+          maxImages: SETTING_RANGES.maxImages.max,
+          maxPixels: SETTING_RANGES.maxPixels.min,
+          maxBytes: SETTING_RANGES.maxBytes.max
+        }
+      }
+    }
+  ])('keeps $name', ({ stored }) => {
+    storeGlobal(stored);
+    expect(loadGlobalSettings()).toEqual({ ...DEFAULT_SETTINGS, ...stored });
+  });
+
+  it.each([
+    { name: 'a cluster gap below its range', stored: { clusterThreshold: SETTING_RANGES.clusterThreshold.min - 1 } },
+    { name: 'a cluster gap above its range', stored: { clusterThreshold: SETTING_RANGES.clusterThreshold.max + 1 } },
+    { name: 'too many search hits', stored: { chatTopK: SETTING_RANGES.chatTopK.max + 10 } },
+    { name: 'an answer longer than the server allows', stored: { maxTokens: SETTING_RANGES.maxTokens.max + 1 } },
+    { name: 'a number that is not finite', stored: { maxTokens: null, chatTopK: 'Infinity' } },
+    { name: 'a number stored as text', stored: { clusterThreshold: '200' } },
+    { name: 'a switch stored as text', stored: { sendScreenshots: 'false' } },
+    {
+      name: 'a screenshot budget with one value out of range',
+      stored: { visualBudget: { maxImages: SETTING_RANGES.maxImages.max + 1, maxPixels: SETTING_RANGES.maxPixels.min, maxBytes: SETTING_RANGES.maxBytes.min } }
+    },
+    { name: 'a partial screenshot budget', stored: { visualBudget: { maxImages: 1 } } },
+    { name: 'a value that is not an object', stored: [1, 2] }
+  ])('falls back to the defaults for $name', ({ stored }) => {
+    storeGlobal(stored);
+    expect(loadGlobalSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps the valid values of a partly bad entry', () => {
+    storeGlobal({ clusterThreshold: 9999, chatTopK: 50 });
+    expect(loadGlobalSettings()).toEqual({ ...DEFAULT_SETTINGS, chatTopK: 50 });
+  });
+
+  it('trims the model name', () => {
+    storeGlobal({ chatModel: '  openai/gpt-4o \n' });
+    expect(loadGlobalSettings().chatModel).toBe('openai/gpt-4o');
+  });
+
+  it('returns the defaults for an entry that is not JSON', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.set('arkeith-settings', '{"clusterThreshold": 300');
+    expect(loadGlobalSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(consoleError).toHaveBeenCalledWith('Failed to load settings:', expect.any(SyntaxError));
+  });
+});
+
+describe('saveGlobalSettings', () => {
+  it('stores only the values that differ from the defaults', () => {
+    saveGlobalSettings({ ...DEFAULT_SETTINGS, chatTopK: 50, visualBudget: { ...DEFAULT_SETTINGS.visualBudget } });
+    expect(JSON.parse(storage.get('arkeith-settings')!)).toEqual({ chatTopK: 50 });
+  });
+
+  it('removes the entry when every value is a default', () => {
+    storeGlobal({ chatTopK: 50 });
+    saveGlobalSettings(DEFAULT_SETTINGS);
+    expect(storage.has('arkeith-settings')).toBe(false);
+  });
+});
+
+describe('board settings', () => {
+  it('lets board values win over global ones', () => {
+    storeGlobal({ chatTopK: 50, maxTokens: 1024 });
+    saveBoardSettings('board-a', { chatTopK: 150, sendScreenshots: false });
+
+    const settings = resolveSettings(loadGlobalSettings(), loadBoardSettings('board-a'));
+
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, chatTopK: 150, maxTokens: 1024, sendScreenshots: false });
+  });
+
+  it('uses the global values for a board without its own', () => {
+    storeGlobal({ chatTopK: 50 });
+    expect(loadBoardSettings('board-a')).toEqual({});
+    expect(resolveSettings(loadGlobalSettings(), loadBoardSettings('board-a'))).toEqual({ ...DEFAULT_SETTINGS, chatTopK: 50 });
+  });
+
+  it('drops invalid board values', () => {
+    storage.set('arkeith-settings:board-a', JSON.stringify({ chatTopK: 5000, maxTokens: 512 }));
+    expect(loadBoardSettings('board-a')).toEqual({ maxTokens: 512 });
+  });
+
+  it('returns no overrides for an entry that is not JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.set('arkeith-settings:board-a', 'not json');
+    expect(loadBoardSettings('board-a')).toEqual({});
+  });
+
+  it('removes the entry when a board has no overrides left', () => {
+    saveBoardSettings('board-a', { chatTopK: 150 });
+    saveBoardSettings('board-a', {});
+    expect(storage.has('arkeith-settings:board-a')).toBe(false);
+  });
+
+  it('copies and deletes a board\'s values', () => {
+    const overrides: Partial<AppSettings> = { chatTopK: 150, chatModel: 'openai/gpt-4o' };
+    saveBoardSettings('board-a', overrides);
+
+    copyBoardSettings('board-a', 'board-b');
+    deleteBoardSettings('board-a');
+
+    expect(loadBoardSettings('board-a')).toEqual({});
+    expect(loadBoardSettings('board-b')).toEqual(overrides);
+  });
+
+  it('copies nothing from a board without its own values', () => {
+    copyBoardSettings('board-a', 'board-b');
+    expect(storage.size).toBe(0);
+  });
+});
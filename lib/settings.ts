@@ -0,0 +1,124 @@
+import { CHAT_LIMITS } from './chatApi';
+import { DEFAULT_VISUAL_BUDGET, VisualContextBudget } from './visualContext';
+
+// Settings for search, chat and screenshots. Defaults for all boards live in one
+// localStorage entry; a board keeps only the values it overrides, so changing a
+// default reaches every board that did not set its own.
+
+export interface AppSettings {
+  // Largest gap in page pixels between shapes of one cluster
+  clusterThreshold: number;
+  // Search hits considered for the chat context, before the token budget applies
+  chatTopK: number;
+  // Longest answer, in tokens
+  maxTokens: number;
+  // Server provider and model; empty uses the server's defaults
+  provider: string;
+  chatModel: string;
+  sendScreenshots: boolean;
+  visualBudget: VisualContextBudget;
+  // OCR and captions for images and drawings; off until chosen, since the model is a large download
+  recognizeImages: boolean;
+}
+
+export type SettingsScope = 'board' | 'global';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  clusterThreshold: 200,
+  chatTopK: 100,
+  maxTokens: 2048,
+  provider: '',
+  chatModel: '',
+  sendScreenshots: true,
+  visualBudget: DEFAULT_VISUAL_BUDGET,
+  recognizeImages: false,
+};
+
+// Allowed ranges of the numeric settings, also used by the settings form
+export const SETTING_RANGES = {
+  clusterThreshold: { min: 50, max: 1000, step: 25 },
+  chatTopK: { min: 10, max: 200, step: 10 },
+  maxTokens: { min: 256, max: CHAT_LIMITS.maxTokens, step: 256 },
+  maxImages: { min: 1, max: CHAT_LIMITS.maxImages, step: 1 },
+  maxPixels: { min: 640 * 480, max: 3840 * 2160, step: 640 * 480 },
+  // Together the images must fit one image's limit, whatever their number
+  maxBytes: { min: 512 * 1024, max: CHAT_LIMITS.maxImageBytes, step: 512 * 1024 },
+};
+
+const SETTINGS_KEY = 'arkeith-settings';
+
+const getBoardSettingsKey = (boardId: string) => `${SETTINGS_KEY}:${boardId}`;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inRange = (value: unknown, { min, max }: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Keep only valid values, so a bad or outdated entry falls back to the defaults
+const parseSettings = (value: unknown): Partial<AppSettings> => {
+  if (!isObject(value)) return {};
+  const settings: Partial<AppSettings> = {};
+  if (inRange(value.clusterThreshold, SETTING_RANGES.clusterThreshold)) settings.clusterThreshold = value.clusterThreshold;
+  if (inRange(value.chatTopK, SETTING_RANGES.chatTopK)) settings.chatTopK = value.chatTopK;
+  if (inRange(value.maxTokens, SETTING_RANGES.maxTokens)) settings.maxTokens = value.maxTokens;
+  if (typeof value.provider === 'string') settings.provider = value.provider;
+  if (typeof value.chatModel === 'string') settings.chatModel = value.chatModel.trim();
+  if (typeof value.sendScreenshots === 'boolean') settings.sendScreenshots = value.sendScreenshots;
+  if (typeof value.recognizeImages === 'boolean') settings.recognizeImages = value.recognizeImages;
+  if (
+    isObject(value.visualBudget)
+    && inRange(value.visualBudget.maxImages, SETTING_RANGES.maxImages)
+    && inRange(value.visualBudget.maxPixels, SETTING_RANGES.maxPixels)
+    && inRange(value.visualBudget.maxBytes, SETTING_RANGES.maxBytes)
+  ) {
+    const { maxImages, maxPixels, maxBytes } = value.visualBudget;
+    settings.visualBudget = { maxImages, maxPixels, maxBytes };
+  }
+  return settings;
+};
+
+const readSettings = (key: string): Partial<AppSettings> => {
+  try {
+    return parseSettings(JSON.parse(localStorage.getItem(key) || 'null'));
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return {};
+  }
+};
+
+const writeSettings = (key: string, settings: Partial<AppSettings>) => {
+  if (Object.keys(settings).length === 0) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(settings));
+  }
+};
+
+export const loadGlobalSettings = (): AppSettings => ({ ...DEFAULT_SETTINGS, ...readSettings(SETTINGS_KEY) });
+
+export const saveGlobalSettings = (settings: AppSettings) => {
+  // Only what differs from the built-in defaults, so later default changes apply
+  const changed = (Object.keys(settings) as (keyof AppSettings)[])
+    .filter(key => JSON.stringify(settings[key]) !== JSON.stringify(DEFAULT_SETTINGS[key]));
+  writeSettings(SETTINGS_KEY, Object.fromEntries(changed.map(key => [key, settings[key]])));
+};
+
+// Values this board sets itself
+export const loadBoardSettings = (boardId: string): Partial<AppSettings> => readSettings(getBoardSettingsKey(boardId));
+
+export const saveBoardSettings = (boardId: string, overrides: Partial<AppSettings>) => {
+  writeSettings(getBoardSettingsKey(boardId), overrides);
+};
+
+export const copyBoardSettings = (fromBoardId: string, toBoardId: string) => {
+  const stored = localStorage.getItem(getBoardSettingsKey(fromBoardId));
+  if (stored) localStorage.setItem(getBoardSettingsKey(toBoardId), stored);
+};
+
+export const deleteBoardSettings = (boardId: string) => {
+  localStorage.removeItem(getBoardSettingsKey(boardId));
+};
+
+export const resolveSettings = (global: AppSettings, overrides: Partial<AppSettings>): AppSettings =>
+  ({ ...global, ...overrides });
@@ -0,0 +1,93 @@
+import type {
+  Editor,
+  TLArrowShape,
+  TLBookmarkAsset,
+  TLBookmarkShape,
+  TLFrameShape,
+  TLGeoShape,
+  TLNoteShape,
+  TLPageId,
+  TLShape,
+  TLTextShape,
+  Vec
+} from '@tldraw/tldraw';
+
+// Searchable text of a shape, keyed by shape id in the map fed to updateVectorIndex
+export interface ShapeTextData {
+  text: string;
+  center: Vec;
+  type: string;
+  pageId: TLPageId;
+}
+
+export type ShapeTextExtractor<S extends TLShape = TLShape> = (shape: S, editor: Editor) => string;
+
+const extractors = new Map<string, ShapeTextExtractor>();
+
+// Register how to read text from a shape type. Custom shapes call this once at
+// module load; registering a type again replaces the previous extractor.
+export const registerShapeTextExtractor = <S extends TLShape>(
+  type: S['type'],
+  extractor: ShapeTextExtractor<S>
+) => {
+  extractors.set(type, extractor as ShapeTextExtractor);
+};
+
+export const hasShapeTextExtractor = (type: string) => extractors.has(type);
+
+// Extractors whose text arrives later (e.g. from image recognition) call
+// notifyShapeTextChanged, so the index picks up text without a store change
+const shapeTextListeners = new Set<() => void>();
+
+export const subscribeShapeTextChanges = (listener: () => void) => {
+  shapeTextListeners.add(listener);
+  return () => {
+    shapeTextListeners.delete(listener);
+  };
+};
+
+export const notifyShapeTextChanged = () => {
+  shapeTextListeners.forEach(listener => listener());
+};
+
+// Returns the trimmed text of a shape, or an empty string for shapes without text
+export const getShapeText = (editor: Editor, shape: TLShape): string => {
+  const extractor = extractors.get(shape.type);
+  if (!extractor) return '';
+
+  try {
+    return extractor(shape, editor).trim();
+  } catch (error) {
+    console.error('Failed to extract shape text:', { type: shape.type, id: shape.id, error });
+    return '';
+  }
+};
+
+registerShapeTextExtractor<TLTextShape>('text', shape => shape.props.text);
+registerShapeTextExtractor<TLNoteShape>('note', shape => shape.props.text);
+registerShapeTextExtractor<TLGeoShape>('geo', shape => shape.props.text);
+registerShapeTextExtractor<TLArrowShape>('arrow', shape => shape.props.text);
+registerShapeTextExtractor<TLFrameShape>('frame', shape => shape.props.name);
+registerShapeTextExtractor<TLBookmarkShape>('bookmark', (shape, editor) => {
+  const asset = shape.props.assetId
+    ? editor.getAsset<TLBookmarkAsset>(shape.props.assetId)
+    : undefined;
+  return [asset?.props.title, asset?.props.description]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(' - ');
+});
+
+// Human readable shape type names for search results
+const SHAPE_TYPE_LABELS: Record<string, string> = {
+  text: 'Text',
+  note: 'Sticky note',
+  geo: 'Shape',
+  arrow: 'Arrow label',
+  frame: 'Frame',
+  bookmark: 'Bookmark',
+  image: 'Image',
+  draw: 'Drawing',
+};
+
+export const getShapeTypeLabel = (type: string) => SHAPE_TYPE_LABELS[type] || type;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet } from './snippet';
+
+// Snippet parts as text, with highlights in brackets
+const render = (text: string, terms: string[], maxLength?: number) =>
+  buildSnippet(text, terms, maxLength).map(part => (part.highlight ? `[${part.text}]` : part.text)).join('');
+
+describe('buildSnippet', () => {
+  const long = `${'intro '.repeat(20)}the launch plan is ready${' outro'.repeat(20)}`;
+
+  it.each([
+    { name: 'highlights every match, ignoring case', text: 'Launch the launch', terms: ['launch'], expected: '[Launch] the [launch]' },
+    { name: 'prefers a phrase over its words', text: 'the launch plan', terms: ['launch', 'launch plan'], expected: 'the [launch plan]' },
+    { name: 'collapses whitespace', text: 'a\n\n  launch', terms: ['launch'], expected: 'a [launch]' },
+    { name: 'treats terms as plain text', text: 'cost (USD) is 1.5', terms: ['(usd)', '1.5'], expected: 'cost [(USD)] is [1.5]' },
+    { name: 'returns plain text without terms', text: 'plain note', terms: [], expected: 'plain note' },
+    { name: 'ignores blank terms', text: 'plain note', terms: [' '], expected: 'plain note' },
+    { name: 'cuts long text after the window', text: 'abcdefghij', terms: [], maxLength: 4, expected: 'abcd…' }
+  ])('$name', ({ text, terms, maxLength, expected }) => {
+    expect(render(text, terms, maxLength)).toBe(expected);
+  });
+
+  it('starts the window shortly before a late first match', () => {
+    const snippet = render(long, ['launch'], 60);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('[launch] plan');
+    // The match sits a third of the way in
+    expect(snippet.indexOf('[launch]')).toBeGreaterThan(10);
+    expect(snippet.indexOf('[launch]')).toBeLessThan(30);
+  });
+
+  it('starts at the beginning when nothing matches', () => {
+    expect(render(long, ['missing'], 20)).toBe('intro intro intro in…');
+  });
+});
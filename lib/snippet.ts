@@ -0,0 +1,31 @@
+// Short excerpt of a search result around the first query match, split into
+// plain and highlighted parts for rendering
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const buildSnippet = (text: string, terms: string[], maxLength = 140): SnippetPart[] => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const patterns = Array.from(new Set(terms.map(term => term.trim()).filter(Boolean)))
+    // Longest first, so phrases win over the words inside them
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const matcher = patterns.length > 0 ? new RegExp(`(${patterns.join('|')})`, 'gi') : null;
+
+  // Start the window a little before the first match
+  const firstMatch = matcher ? clean.search(matcher) : -1;
+  const start = firstMatch > maxLength / 3 ? firstMatch - Math.floor(maxLength / 3) : 0;
+  const end = Math.min(clean.length, start + maxLength);
+  const window = `${start > 0 ? '…' : ''}${clean.slice(start, end)}${end < clean.length ? '…' : ''}`;
+
+  if (!matcher) return [{ text: window, highlight: false }];
+
+  return window
+    .split(matcher)
+    .filter(Boolean)
+    .map(part => ({ text: part, highlight: patterns.some(p => new RegExp(`^${p}$`, 'i').test(part)) }));
+};
@@ -0,0 +1,121 @@
+// Speech to text for voice notes. Audio is recorded with MediaRecorder, decoded to
+// 16 kHz mono and transcribed by Whisper in a worker (speech.worker.ts). Only the
+// model files are downloaded; the audio never leaves the browser.
+
+export interface SpeechRequest {
+  id: number;
+  // 16 kHz mono samples
+  audio: Float32Array;
+}
+
+export type SpeechResponse =
+  | { id: number; text: string }
+  | { id: number; error: string };
+
+// Whisper is trained on 16 kHz audio
+const SAMPLE_RATE = 16000;
+
+// Decode a recording, resampled to 16 kHz by the audio context, and mix it to mono
+const decodeAudio = async (blob: Blob) => {
+  const context = new AudioContext({ sampleRate: SAMPLE_RATE });
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+    const mixed = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) mixed[i] += data[i] / buffer.numberOfChannels;
+    }
+    return mixed;
+  } finally {
+    context.close().catch(() => {});
+  }
+};
+
+export interface Recording {
+  // Finish recording and return the audio
+  stop: () => Promise<Float32Array>;
+  // Discard the recording
+  cancel: () => void;
+}
+
+// Start recording from the microphone; asks for permission the first time
+export const startRecording = async (): Promise<Recording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  // Turns off the microphone indicator
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () => new Promise<Float32Array>((resolve, reject) => {
+      recorder.onstop = () => {
+        release();
+        decodeAudio(new Blob(chunks, { type: recorder.mimeType })).then(resolve, reject);
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    }
+  };
+};
+
+export const createSpeechRecognizer = () => {
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  const requests = new Map<number, { resolve: (text: string) => void; reject: (error: Error) => void }>();
+
+  const failAll = (error: Error) => {
+    requests.forEach(request => request.reject(error));
+    requests.clear();
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./speech.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SpeechResponse>) => {
+        const response = event.data;
+        const request = requests.get(response.id);
+        if (!request) return;
+        requests.delete(response.id);
+        if ('error' in response) {
+          request.reject(new Error(response.error));
+        } else {
+          request.resolve(response.text);
+        }
+      };
+      worker.onerror = (event) => {
+        failAll(new Error(event.message || 'Speech recognition worker failed'));
+        worker?.terminate();
+        worker = null;
+      };
+    }
+    return worker;
+  };
+
+  return {
+    transcribe: (audio: Float32Array) =>
+      new Promise<string>((resolve, reject) => {
+        const id = nextRequestId++;
+        requests.set(id, { resolve, reject });
+        getWorker().postMessage({ id, audio } satisfies SpeechRequest, [audio.buffer]);
+      })
+  };
+};
+
+export type SpeechRecognizer = ReturnType<typeof createSpeechRecognizer>;
+
+// One worker and model for the whole page, loaded on the first dictation
+let sharedRecognizer: SpeechRecognizer | null = null;
+
+export const getSpeechRecognizer = () => {
+  if (!sharedRecognizer) sharedRecognizer = createSpeechRecognizer();
+  return sharedRecognizer;
+};
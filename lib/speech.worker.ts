@@ -0,0 +1,57 @@
+import { AutomaticSpeechRecognitionPipeline, env, pipeline } from '@huggingface/transformers';
+import type { SpeechRequest, SpeechResponse } from './speech';
+
+// Runs Whisper off the main thread. Model files come from the Hugging Face hub
+// once and are then served from the browser cache; the multilingual model detects
+// the spoken language.
+
+const MODEL_ID = 'onnx-community/whisper-base';
+// Long recordings are transcribed in overlapping windows
+const CHUNK_LENGTH_S = 30;
+const STRIDE_LENGTH_S = 5;
+
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+const hasWebGPU = typeof navigator !== 'undefined' && 'gpu' in navigator;
+
+let transcriberPromise: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+
+const loadTranscriber = () => {
+  if (!transcriberPromise) {
+    transcriberPromise = pipeline('automatic-speech-recognition', MODEL_ID, {
+      device: hasWebGPU ? 'webgpu' : 'wasm',
+      dtype: hasWebGPU ? { encoder_model: 'fp32', decoder_model_merged: 'q4' } : 'q8'
+    }) as Promise<AutomaticSpeechRecognitionPipeline>;
+    // Allow a retry after a failed download
+    transcriberPromise.catch(() => {
+      transcriberPromise = null;
+    });
+  }
+  return transcriberPromise;
+};
+
+const reply = (response: SpeechResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+// Requests are handled one at a time; the model is too heavy to run in parallel
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<SpeechRequest>) => {
+  const { id, audio } = event.data;
+  queue = queue.then(async () => {
+    try {
+      const transcriber = await loadTranscriber();
+      const output = await transcriber(audio, {
+        chunk_length_s: CHUNK_LENGTH_S,
+        stride_length_s: STRIDE_LENGTH_S
+      });
+      const text = (Array.isArray(output) ? output : [output]).map(part => part.text).join(' ');
+      // Silence comes back as markers such as [BLANK_AUDIO]
+      reply({ id, text: text.replace(/\[[A-Z_ ]+\]/g, ' ').replace(/\s+/g, ' ').trim() });
+    } catch (error: any) {
+      reply({ id, error: error?.message || String(error) });
+    }
+  });
+};
@@ -0,0 +1,179 @@
+import { Box, Editor, TLShape, TLShapeId } from '@tldraw/tldraw';
+import type { ClusterBounds } from './clustering';
+
+// Shared types and helpers for the whiteboard vector index
+
+export interface ObjectItem {
+  id: string;
+  name: string;
+  embedding: number[];
+  // First member in reading order, kept for entries written before memberIds
+  shapeId: string;
+  // Every shape in the cluster, in reading order
+  memberIds: string[];
+  shapeTypes: string[];
+  pageId: string;
+  // Page bounds of the cluster when it was last indexed
+  bounds: ClusterBounds | null;
+  // Hash of the member shapes' ids, page and text; the id is derived from it
+  contentHash: string;
+}
+
+// Fill in fields missing from entries persisted by older versions. EmbeddingIndex
+// requires every entry to have the same keys.
+export const normalizeIndexEntry = (entry: Partial<ObjectItem> & { id: string; embedding: number[] }): ObjectItem => ({
+  id: entry.id,
+  name: entry.name || '',
+  embedding: entry.embedding,
+  shapeId: entry.shapeId || entry.memberIds?.[0] || '',
+  memberIds: entry.memberIds || (entry.shapeId ? [entry.shapeId] : []),
+  shapeTypes: entry.shapeTypes || [],
+  pageId: entry.pageId || '',
+  bounds: entry.bounds || null,
+  contentHash: entry.contentHash || '',
+});
+
+export interface EmbeddingModelInfo {
+  id: string;
+  dimensions: number;
+}
+
+export interface EmbeddingModelOption extends EmbeddingModelInfo {
+  label: string;
+  // E5 models are trained to tell search queries from indexed text by a prefix
+  queryPrefix?: string;
+  passagePrefix?: string;
+}
+
+// Models the embedding worker can run. The first is the one client-vector-search's
+// getEmbedding used, so indexes stored before model choice existed stay valid.
+export const EMBEDDING_MODELS: EmbeddingModelOption[] = [
+  { id: 'Xenova/gte-small', dimensions: 384, label: 'GTE small (English)' },
+  { id: 'Xenova/all-MiniLM-L6-v2', dimensions: 384, label: 'MiniLM L6 (English, fastest)' },
+  {
+    id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    dimensions: 384,
+    label: 'Multilingual MiniLM L12 (50+ languages)'
+  },
+  {
+    id: 'Xenova/multilingual-e5-small',
+    dimensions: 384,
+    label: 'Multilingual E5 small (100 languages)',
+    queryPrefix: 'query: ',
+    passagePrefix: 'passage: '
+  },
+];
+
+export const DEFAULT_EMBEDDING_MODEL = EMBEDDING_MODELS[0];
+
+export const getEmbeddingModel = (id: string) =>
+  EMBEDDING_MODELS.find(model => model.id === id);
+
+export const isSameEmbeddingModel = (a: EmbeddingModelInfo, b: EmbeddingModelInfo) =>
+  a.id === b.id && a.dimensions === b.dimensions;
+
+// Member shapes of an entry that still exist on the board
+export const getEntryShapes = (editor: Editor, entry: ObjectItem): TLShape[] =>
+  entry.memberIds
+    .map(id => editor.getShape(id as TLShapeId))
+    .filter((shape): shape is TLShape => Boolean(shape));
+
+// Current page bounds of an entry's surviving members, or the stored bounds
+// when no member can be measured
+export const getEntryBounds = (editor: Editor, entry: ObjectItem): Box | null => {
+  const boxes = getEntryShapes(editor, entry)
+    .map(shape => editor.getShapePageBounds(shape))
+    .filter((box): box is Box => Boolean(box));
+  if (boxes.length > 0) return Box.Common(boxes);
+  if (entry.bounds) return new Box(entry.bounds.x, entry.bounds.y, entry.bounds.w, entry.bounds.h);
+  return null;
+};
+
+export const boundsEqual = (a: ClusterBounds | null, b: ClusterBounds | null) =>
+  a === b || (!!a && !!b && a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h);
+
+export interface ClusterMember {
+  id: string;
+  text: string;
+  type: string;
+  pageId: string;
+}
+
+// cyrb53: fast non-cryptographic 53-bit string hash, returned as hex
+export const hashString = (value: string, seed = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+// Identifies a cluster by what it contains, independent of shape order and position,
+// so moving a cluster around the canvas does not need a new embedding
+export const hashClusterContent = (members: ClusterMember[]): string =>
+  hashString(
+    [...members]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(member => `${member.pageId}\u0000${member.id}\u0000${member.type}\u0000${member.text}`)
+      .join('\u0001')
+  );
+
+export const clusterIdFromHash = (contentHash: string) => `cluster-${contentHash}`;
+
+// Runs `run` with the latest scheduled value once `delayMs` has passed without a
+// new value. Runs never overlap: values scheduled during a run are coalesced and
+// processed after it finishes.
+export const createCoalescingRunner = <T>(
+  run: (value: T) => Promise<void>,
+  delayMs: number
+) => {
+  let pending: { value: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | null = null;
+
+  const drain = async () => {
+    while (pending) {
+      const { value } = pending;
+      pending = null;
+      try {
+        await run(value);
+      } catch (error) {
+        console.error('Index update failed:', error);
+      }
+    }
+  };
+
+  const start = () => {
+    timer = undefined;
+    if (running) return running;
+    running = drain().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  return {
+    schedule(value: T) {
+      pending = { value };
+      clearTimeout(timer);
+      timer = setTimeout(start, delayMs);
+    },
+    // Run any pending value now and wait until the runner is idle
+    async flush() {
+      clearTimeout(timer);
+      if (pending) {
+        await start();
+      }
+      await running;
+    },
+    cancel() {
+      clearTimeout(timer);
+      pending = null;
+    }
+  };
+};
@@ -0,0 +1,139 @@
+import { deleteDatabase, openDatabase, requestToPromise, transactionDone } from './idb';
+import type { EmbeddingModelInfo, ObjectItem } from './vectorIndex';
+
+// IndexedDB persistence for the vector index. Entries are keyed by cluster id so
+// updates replace and delete records instead of appending, and embeddings are
+// cached by the hash of the text they were computed from. A metadata record names
+// the model all stored vectors come from. Every board has its own database, named
+// by its namespace.
+
+const DB_NAME = 'arkeith-vector-index';
+const DB_VERSION = 2;
+const ENTRIES_STORE = 'entries';
+const EMBEDDINGS_STORE = 'embeddings';
+const META_STORE = 'meta';
+const META_KEY = 'index';
+
+export interface CachedEmbedding {
+  textHash: string;
+  embedding: number[];
+}
+
+export interface IndexMeta {
+  // Model that produced every stored entry and cached embedding
+  model: EmbeddingModelInfo;
+  // Set while a full rebuild with the model is under way; a rebuild interrupted
+  // by a reload continues from the embeddings cached so far
+  rebuilding: boolean;
+}
+
+// The default namespace keeps the database name used before boards existed
+export const getIndexDatabaseName = (namespace: string) =>
+  namespace === 'default' ? DB_NAME : `${DB_NAME}:${namespace}`;
+
+const openIndexDatabase = (namespace: string) =>
+  openDatabase(getIndexDatabaseName(namespace), DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+      db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'textHash' });
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  });
+
+// Indexes stored before version 2 have no metadata
+export const loadIndexMeta = async (namespace: string): Promise<IndexMeta | null> => {
+  const db = await openIndexDatabase(namespace);
+  const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  return (await requestToPromise(store.get(META_KEY) as IDBRequest<IndexMeta | undefined>)) || null;
+};
+
+export const saveIndexMeta = async (namespace: string, meta: IndexMeta) => {
+  const db = await openIndexDatabase(namespace);
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(meta, META_KEY);
+  await transactionDone(transaction);
+};
+
+export const loadIndexEntries = async (namespace: string): Promise<ObjectItem[]> => {
+  const db = await openIndexDatabase(namespace);
+  const store = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<ObjectItem[]>);
+};
+
+// Apply one index update atomically
+export const saveIndexChanges = async (namespace: string, put: ObjectItem[], deleteIds: string[]) => {
+  if (put.length === 0 && deleteIds.length === 0) return;
+
+  const db = await openIndexDatabase(namespace);
+  const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = transaction.objectStore(ENTRIES_STORE);
+  deleteIds.forEach(id => store.delete(id));
+  put.forEach(entry => store.put(entry));
+  await transactionDone(transaction);
+};
+
+export const getCachedEmbedding = async (namespace: string, textHash: string): Promise<number[] | null> => {
+  const db = await openIndexDatabase(namespace);
+  const store = db.transaction(EMBEDDINGS_STORE, 'readonly').objectStore(EMBEDDINGS_STORE);
+  const cached = await requestToPromise(store.get(textHash) as IDBRequest<CachedEmbedding | undefined>);
+  return cached?.embedding || null;
+};
+
+export const putCachedEmbedding = async (namespace: string, textHash: string, embedding: number[]) => {
+  const db = await openIndexDatabase(namespace);
+  const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+  transaction.objectStore(EMBEDDINGS_STORE).put({ textHash, embedding } satisfies CachedEmbedding);
+  await transactionDone(transaction);
+};
+
+// Drop every entry and cached embedding; `meta` then describes the empty index
+export const clearIndexStore = async (namespace: string, meta?: IndexMeta) => {
+  const db = await openIndexDatabase(namespace);
+  const transaction = db.transaction([ENTRIES_STORE, EMBEDDINGS_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).clear();
+  transaction.objectStore(EMBEDDINGS_STORE).clear();
+  if (meta) {
+    transaction.objectStore(META_STORE).put(meta, META_KEY);
+  } else {
+    transaction.objectStore(META_STORE).delete(META_KEY);
+  }
+  await transactionDone(transaction);
+};
+
+export interface IndexStoreContents {
+  meta: IndexMeta | null;
+  entries: ObjectItem[];
+  embeddings: CachedEmbedding[];
+}
+
+export const readIndexStore = async (namespace: string): Promise<IndexStoreContents> => {
+  const db = await openIndexDatabase(namespace);
+  const read = db.transaction([ENTRIES_STORE, EMBEDDINGS_STORE, META_STORE], 'readonly');
+  const [meta, entries, embeddings] = await Promise.all([
+    requestToPromise(read.objectStore(META_STORE).get(META_KEY) as IDBRequest<IndexMeta | undefined>),
+    requestToPromise(read.objectStore(ENTRIES_STORE).getAll() as IDBRequest<ObjectItem[]>),
+    requestToPromise(read.objectStore(EMBEDDINGS_STORE).getAll() as IDBRequest<CachedEmbedding[]>)
+  ]);
+  return { meta: meta || null, entries, embeddings };
+};
+
+// Add entries and cached embeddings, replacing records with the same keys
+export const writeIndexStore = async (namespace: string, { meta, entries, embeddings }: IndexStoreContents) => {
+  const db = await openIndexDatabase(namespace);
+  const write = db.transaction([ENTRIES_STORE, EMBEDDINGS_STORE, META_STORE], 'readwrite');
+  if (meta) write.objectStore(META_STORE).put(meta, META_KEY);
+  entries.forEach(entry => write.objectStore(ENTRIES_STORE).put(entry));
+  embeddings.forEach(cached => write.objectStore(EMBEDDINGS_STORE).put(cached));
+  await transactionDone(write);
+};
+
+// Copy entries and cached embeddings, used when duplicating a board
+export const copyIndexStore = async (fromNamespace: string, toNamespace: string) =>
+  writeIndexStore(toNamespace, await readIndexStore(fromNamespace));
+
+export const deleteIndexDatabase = (namespace: string) =>
+  deleteDatabase(getIndexDatabaseName(namespace));
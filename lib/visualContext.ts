@@ -0,0 +1,163 @@
+import { Box, Editor, exportToBlob, TLPageId, TLShapeId } from '@tldraw/tldraw';
+import type { ContextImage } from './chatContext';
+
+// Screenshots sent with a chat question. Crop regions follow the bounds of the
+// retrieved clusters: clusters close together share a region, and clusters far
+// apart get their own image, up to a maximum. Images are scaled down so that
+// together they stay within a pixel and byte budget.
+
+export interface VisualContextBudget {
+  maxImages: number;
+  // Total pixels over all images
+  maxPixels: number;
+  // Total encoded size over all images
+  maxBytes: number;
+}
+
+export const DEFAULT_VISUAL_BUDGET: VisualContextBudget = {
+  maxImages: 3,
+  maxPixels: 2560 * 1440,
+  maxBytes: 3 * 1024 * 1024,
+};
+
+// Shapes to show, with the refs of the sources they hold
+export interface CaptureTarget {
+  refs: string[];
+  shapeIds: string[];
+}
+
+interface CaptureRegion {
+  pageId: TLPageId;
+  bounds: Box;
+  refs: string[];
+}
+
+// Clusters closer than this (page pixels) are shown in one image
+const MERGE_GAP = 400;
+// Regions are not merged past this size, where text would become unreadable
+const MAX_REGION_EXTENT = 6000;
+const REGION_PADDING = 32;
+// Each retry shrinks the image by this factor until it fits the byte budget
+const SHRINK_FACTOR = 0.7;
+const MAX_ENCODE_ATTEMPTS = 4;
+
+const gapBetween = (a: Box, b: Box) => {
+  const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+  return Math.hypot(dx, dy);
+};
+
+// Merge the closest pair of regions on the same page, if any pair qualifies
+const mergeClosest = (regions: CaptureRegion[], maxGap: number) => {
+  let best: { i: number; j: number; gap: number } | null = null;
+  for (let i = 0; i < regions.length; i++) {
+    for (let j = i + 1; j < regions.length; j++) {
+      if (regions[i].pageId !== regions[j].pageId) continue;
+      const merged = Box.Common([regions[i].bounds, regions[j].bounds]);
+      if (Math.max(merged.w, merged.h) > MAX_REGION_EXTENT) continue;
+      const gap = gapBetween(regions[i].bounds, regions[j].bounds);
+      if (gap <= maxGap && (!best || gap < best.gap)) best = { i, j, gap };
+    }
+  }
+  if (!best) return false;
+  const { i, j } = best;
+  regions[i] = {
+    pageId: regions[i].pageId,
+    bounds: Box.Common([regions[i].bounds, regions[j].bounds]),
+    refs: [...regions[i].refs, ...regions[j].refs]
+  };
+  regions.splice(j, 1);
+  return true;
+};
+
+// Targets are in rank order; when regions must be dropped, the lowest ranked go
+const planCaptureRegions = (editor: Editor, targets: CaptureTarget[], maxImages: number) => {
+  const regions: CaptureRegion[] = [];
+  targets.forEach((target) => {
+    const boxes = target.shapeIds
+      .map(id => editor.getShapePageBounds(id as TLShapeId))
+      .filter((box): box is Box => Boolean(box));
+    const pageId = editor.getAncestorPageId(target.shapeIds[0] as TLShapeId);
+    if (boxes.length === 0 || !pageId) return;
+    regions.push({ pageId, bounds: Box.Common(boxes), refs: target.refs });
+  });
+
+  let merged = true;
+  while (merged) merged = mergeClosest(regions, MERGE_GAP);
+  // Too many images: merge further apart clusters, or leave out the lowest ranked
+  while (regions.length > maxImages) {
+    if (!mergeClosest(regions, Infinity)) regions.pop();
+  }
+  return regions.map(region => ({ ...region, bounds: region.bounds.clone().expandBy(REGION_PADDING) }));
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// The smallest encoding that fits maxBytes, or null when even the last attempt is too large
+const captureRegion = async (editor: Editor, region: CaptureRegion, maxPixels: number, maxBytes: number) => {
+  // Every shape touching the region, not only those fully inside it
+  const ids = Array.from(editor.getPageShapeIds(region.pageId)).filter((id) => {
+    const bounds = editor.getShapeMaskedPageBounds(id);
+    return bounds ? region.bounds.collides(bounds) : false;
+  });
+  if (ids.length === 0) return null;
+
+  let scale = Math.min(1, Math.sqrt(maxPixels / (region.bounds.w * region.bounds.h)));
+  // PNG keeps text crisp; JPEG is the fallback for busy regions that are too large
+  let format: 'png' | 'jpeg' = 'png';
+  for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+    const blob = await exportToBlob({
+      editor,
+      ids,
+      format,
+      opts: { bounds: region.bounds, scale, background: true }
+    });
+    if (blob.size <= maxBytes) {
+      return { src: await blobToDataUrl(blob), bytes: blob.size };
+    }
+    if (format === 'png') {
+      format = 'jpeg';
+    } else {
+      scale *= SHRINK_FACTOR;
+    }
+  }
+  return null;
+};
+
+// Capture every region once, splitting the budget evenly between the images.
+// Bytes a smaller image leaves unused go to the images after it, so the total
+// never exceeds the budget; a region that cannot fit its share is left out.
+export const captureVisualContext = async (
+  editor: Editor,
+  targets: CaptureTarget[],
+  budget: VisualContextBudget = DEFAULT_VISUAL_BUDGET,
+  signal?: AbortSignal
+): Promise<ContextImage[]> => {
+  const regions = planCaptureRegions(editor, targets, budget.maxImages);
+  const images: ContextImage[] = [];
+  let bytesLeft = budget.maxBytes;
+  for (const [i, region] of regions.entries()) {
+    signal?.throwIfAborted();
+    try {
+      const capture = await captureRegion(
+        editor,
+        region,
+        budget.maxPixels / regions.length,
+        bytesLeft / (regions.length - i)
+      );
+      if (capture) {
+        images.push({ src: capture.src, refs: region.refs });
+        bytesLeft -= capture.bytes;
+      }
+    } catch (error) {
+      console.error('Failed to capture region:', { refs: region.refs, error });
+    }
+  }
+  return images;
+};
@@ -1,5 +1,12 @@
+const isStaticExport = process.env.STATIC_EXPORT === '1';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // The GitHub Pages build is a static export. Route handlers cannot be exported,
+  // so there only .tsx and .jsx files are routes and app/api/chat/route.ts is left
+  // out; chat then runs in the browser (lib/browserChat.ts)
+  output: isStaticExport ? 'export' : undefined,
+  pageExtensions: isStaticExport ? ['tsx', 'jsx'] : ['tsx', 'ts', 'jsx', 'js'],
   images: {
     unoptimized: true,
   },
@@ -18,6 +25,12 @@ const nextConfig = {
       net: false,
       tls: false,
     };
+    // The browser build of @huggingface/transformers contains webpack's own
+    // `new URL("./", import.meta.url)`, which webpack would try to resolve
+    config.module.rules.push({
+      test: /@huggingface[\\/]transformers[\\/]dist[\\/].*\.js$/,
+      parser: { url: false },
+    });
     return config;
   },
   experimental: {